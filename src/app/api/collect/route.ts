@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { parseNetwork } from "@/lib/chains";
 import { fetchAllChainsGas } from "@/lib/gas-fetcher";
-import { insertGasData } from "@/lib/db";
+import { insertGasData, insertPriceHistory, runMaintenance } from "@/lib/db";
+import { getTokenPrices } from "@/lib/price-oracle";
 
 export const dynamic = "force-dynamic";
 
@@ -14,22 +16,57 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
   }
+  const network = parseNetwork(request.nextUrl.searchParams.get("network"));
+  if (!network) {
+    return NextResponse.json({ ok: false, error: "Unknown network" }, { status: 400 });
+  }
   try {
-    const result = await fetchAllChainsGas();
+    const result = await fetchAllChainsGas(network);
 
     const rows = result.chains.map((c) => ({
+      network,
       chain: c.chain,
       avgGwei: c.avgGwei,
+      lowGwei: c.lowGwei,
+      highGwei: c.highGwei,
+      baseFee: c.baseFee,
+      priorityFees: c.priorityFees,
+      utilization: c.utilization,
       swapCostUsd: c.swapCostUsd,
       tokenPrice: c.tokenPrice,
+      blockNumber: c.blockNumber,
       timestamp: result.timestamp,
     }));
 
+    // Hard-coded fallback prices aren't observations, so they aren't recorded.
+    // Prices don't depend on the network, so only mainnet collection records them.
+    const prices = network === "mainnet" ? await getTokenPrices() : {};
+    const priceRows = Object.entries(prices)
+      .filter(([, quote]) => !quote.fallback)
+      .map(([token, quote]) => ({
+        token,
+        price: quote.price,
+        source: quote.source,
+        timestamp: result.timestamp,
+      }));
+
     await insertGasData(rows);
+    await insertPriceHistory(priceRows);
+
+    // Rollups and retention run on the cron cadence; a failure here
+    // shouldn't be reported as a failed collection
+    let maintenance = "ok";
+    try {
+      await runMaintenance();
+    } catch (error) {
+      maintenance = error instanceof Error ? error.message : "Maintenance failed";
+    }
 
     return NextResponse.json({
       ok: true,
       collected: rows.length,
+      prices: priceRows.length,
+      maintenance,
       timestamp: result.timestamp,
     });
   } catch (error) {
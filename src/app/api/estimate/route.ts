@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getChain } from "@/lib/chain-registry";
+import { ChainConfig, parseNetwork } from "@/lib/chains";
+import { EstimateCall, estimateTransaction } from "@/lib/estimate";
+import { ChainEstimateResult } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const HEX_BYTES = /^0x(?:[0-9a-fA-F]{2})*$/;
+const HEX_QUANTITY = /^0x[0-9a-fA-F]+$/;
+// 128 KiB, the default txpool size limit on geth
+const MAX_CALLDATA_BYTES = 131072;
+
+interface EstimateBody extends EstimateCall {
+  chains?: unknown;
+  network?: unknown;
+}
+
+function parseCall(body: EstimateBody): EstimateCall | string {
+  const { to, from, data, value } = body;
+  if (to !== undefined && (typeof to !== "string" || !ADDRESS.test(to))) {
+    return "`to` must be a 0x-prefixed 20-byte address";
+  }
+  if (from !== undefined && (typeof from !== "string" || !ADDRESS.test(from))) {
+    return "`from` must be a 0x-prefixed 20-byte address";
+  }
+  if (data !== undefined && (typeof data !== "string" || !HEX_BYTES.test(data))) {
+    return "`data` must be 0x-prefixed hex bytes";
+  }
+  if (data && (data.length - 2) / 2 > MAX_CALLDATA_BYTES) {
+    return `\`data\` is longer than ${MAX_CALLDATA_BYTES} bytes`;
+  }
+  if (value !== undefined && (typeof value !== "string" || !HEX_QUANTITY.test(value))) {
+    return "`value` must be a 0x-prefixed hex amount of wei";
+  }
+  if (to === undefined && !data) return "a contract deployment needs `data`";
+  return { to, from, data, value };
+}
+
+export async function POST(request: NextRequest) {
+  let body: EstimateBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json({ error: "Body must be an object" }, { status: 400 });
+  }
+
+  const call = parseCall(body);
+  if (typeof call === "string") {
+    return NextResponse.json({ error: call }, { status: 400 });
+  }
+  const network = parseNetwork(typeof body.network === "string" ? body.network : null);
+  if (!network) {
+    return NextResponse.json({ error: "Unknown network" }, { status: 400 });
+  }
+  if (
+    !Array.isArray(body.chains) ||
+    body.chains.length === 0 ||
+    !body.chains.every((id) => typeof id === "string")
+  ) {
+    return NextResponse.json({ error: "`chains` must be a list of chain ids" }, { status: 400 });
+  }
+
+  const chains: ChainConfig[] = [];
+  for (const id of new Set(body.chains as string[])) {
+    const chain = getChain(id, network);
+    if (!chain) {
+      return NextResponse.json({ error: `Unknown chain: ${id}` }, { status: 400 });
+    }
+    chains.push(chain);
+  }
+
+  const settledEstimates = await Promise.allSettled(
+    chains.map((chain) => estimateTransaction(chain, call))
+  );
+  const estimates: ChainEstimateResult[] = settledEstimates.map((result, i) =>
+    result.status === "fulfilled"
+      ? result.value
+      : {
+          chain: chains[i].id,
+          name: chains[i].name,
+          error: result.reason instanceof Error ? result.reason.message : "Estimate failed",
+        }
+  );
+
+  return NextResponse.json({ timestamp: Date.now(), estimates });
+}
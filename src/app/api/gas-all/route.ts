@@ -1,27 +1,57 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { Network, parseNetwork } from "@/lib/chains";
 import { fetchAllChainsGas } from "@/lib/gas-fetcher";
-import { insertGasData } from "@/lib/db";
+import { insertGasData, insertPriceHistory } from "@/lib/db";
+import { getTokenPrices } from "@/lib/price-oracle";
 
-// Throttle DB writes to once per 60s across all requests
-let lastWrite = 0;
+// Throttle DB writes to once per 60s per network across all requests
+const lastWrite: Partial<Record<Network, number>> = {};
 const WRITE_INTERVAL = 60_000;
 
-export async function GET() {
-  const result = await fetchAllChainsGas();
+export async function GET(request: NextRequest) {
+  const network = parseNetwork(request.nextUrl.searchParams.get("network"));
+  if (!network) {
+    return NextResponse.json({ error: "Unknown network" }, { status: 400 });
+  }
+  const result = await fetchAllChainsGas(network);
 
   // Persist to DB if enough time has passed (piggyback on client polling)
   const now = Date.now();
-  if (now - lastWrite > WRITE_INTERVAL && process.env.DATABASE_URL) {
-    lastWrite = now;
+  if (now - (lastWrite[network] ?? 0) > WRITE_INTERVAL) {
+    lastWrite[network] = now;
     const rows = result.chains.map((c) => ({
+      network,
       chain: c.chain,
       avgGwei: c.avgGwei,
+      lowGwei: c.lowGwei,
+      highGwei: c.highGwei,
+      baseFee: c.baseFee,
+      priorityFees: c.priorityFees,
+      utilization: c.utilization,
       swapCostUsd: c.swapCostUsd,
       tokenPrice: c.tokenPrice,
+      blockNumber: c.blockNumber,
       timestamp: result.timestamp,
     }));
     // Fire and forget — don't block the response
     insertGasData(rows).catch(() => {});
+    // Token prices don't depend on the network, so mainnet polling records them
+    if (network === "mainnet") {
+      getTokenPrices()
+        .then((prices) =>
+          insertPriceHistory(
+            Object.entries(prices)
+              .filter(([, quote]) => !quote.fallback)
+              .map(([token, quote]) => ({
+                token,
+                price: quote.price,
+                source: quote.source,
+                timestamp: result.timestamp,
+              }))
+          )
+        )
+        .catch(() => {});
+    }
   }
 
   return NextResponse.json({
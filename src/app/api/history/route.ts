@@ -1,20 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
-import { queryAllChainsHistory, queryChainHistory } from "@/lib/db";
+import {
+  bucketWidthMs,
+  DEFAULT_BUCKETS,
+  parseResolution,
+  planHistoryQuery,
+  queryAllChainsHistory,
+  queryChainHistory,
+} from "@/lib/db";
+import { parseNetwork } from "@/lib/chains";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest) {
-  const chain = request.nextUrl.searchParams.get("chain") || "all";
+  const params = request.nextUrl.searchParams;
+  const network = parseNetwork(params.get("network"));
+  if (!network) {
+    return NextResponse.json({ error: "Unknown network" }, { status: 400 });
+  }
+  const chain = params.get("chain") || "all";
   const hours = Math.min(
-    Math.max(parseFloat(request.nextUrl.searchParams.get("hours") || "24"), 0.1),
-    168 // max 7 days
+    Math.max(parseFloat(params.get("hours") || "24"), 0.1),
+    24 * 366 // max 1 year, served from the daily rollup
+  );
+  const buckets = Math.min(
+    Math.max(parseInt(params.get("buckets") || `${DEFAULT_BUCKETS}`, 10) || DEFAULT_BUCKETS, 10),
+    1000
+  );
+  const resolution = parseResolution(params.get("resolution"));
+  const { tier, bucketMs } = planHistoryQuery(
+    hours,
+    Math.max(
+      resolution ?? bucketWidthMs(hours, buckets),
+      bucketWidthMs(hours, 1000)
+    )
   );
 
   if (chain === "all") {
-    const points = await queryAllChainsHistory(hours);
-    return NextResponse.json({ points });
+    const points = await queryAllChainsHistory(hours, bucketMs, tier, network);
+    return NextResponse.json({ points, bucketMs, tier });
   }
 
-  const points = await queryChainHistory(chain, hours);
-  return NextResponse.json({ points });
+  const points = await queryChainHistory(chain, hours, bucketMs, tier, network);
+  return NextResponse.json({ points, bucketMs, tier });
 }
@@ -1,45 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
+import { bucketWidthMs, DEFAULT_BUCKETS, queryPriceHistory } from "@/lib/db";
+import { getTokenPrice } from "@/lib/price-oracle";
 
-const FALLBACK_PRICES: Record<string, number> = {
-  ethereum: 2500,
-  "matic-network": 0.35,
-  binancecoin: 600,
-  "avalanche-2": 25,
-  "berachain-bera": 4,
-  xdai: 1.0,
-  mantle: 0.75,
-  celo: 0.5,
-  solana: 150,
-  monad: 0.5,
-};
+const MAX_RANGE_MS = 366 * 86400_000;
 
-const priceCache: Record<string, { price: number; timestamp: number }> = {};
-const CACHE_TTL = 60_000;
+// Accepts epoch milliseconds or anything Date.parse understands
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
 
 export async function GET(request: NextRequest) {
-  const tokenId = request.nextUrl.searchParams.get("token") || "ethereum";
+  const params = request.nextUrl.searchParams;
+  const tokenId = params.get("token") || "ethereum";
+  const hours = params.get("hours");
+  const from = parseTime(params.get("from"));
 
-  const cached = priceCache[tokenId];
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return NextResponse.json({ price: cached.price });
+  // Without a range this is the spot price
+  if (hours === null && from === null) {
+    return NextResponse.json(await getTokenPrice(tokenId));
   }
 
-  try {
-    const res = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${tokenId}&vs_currencies=usd`,
-      { next: { revalidate: 60 } }
-    );
-    const data = await res.json();
-    const price = data[tokenId]?.usd;
-
-    if (price) {
-      priceCache[tokenId] = { price, timestamp: Date.now() };
-      return NextResponse.json({ price });
-    }
-  } catch {
-    // Fall through to cache/fallback
+  const until = parseTime(params.get("to")) ?? Date.now();
+  const since =
+    from ?? until - Math.max(parseFloat(hours ?? "24") || 24, 0.1) * 3600_000;
+  if (since >= until) {
+    return NextResponse.json({ error: "`from` must be before `to`" }, { status: 400 });
   }
+  const clampedSince = Math.max(since, until - MAX_RANGE_MS);
+  const buckets = Math.min(
+    Math.max(parseInt(params.get("buckets") || `${DEFAULT_BUCKETS}`, 10) || DEFAULT_BUCKETS, 10),
+    1000
+  );
+  const bucketMs = bucketWidthMs((until - clampedSince) / 3600_000, buckets);
 
-  const fallback = cached?.price ?? FALLBACK_PRICES[tokenId] ?? 0;
-  return NextResponse.json({ price: fallback });
+  try {
+    const points = await queryPriceHistory(tokenId, clampedSince, until, bucketMs);
+    return NextResponse.json({ token: tokenId, points, bucketMs });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Query failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
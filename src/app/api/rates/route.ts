@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { CURRENCY_PRICE_IDS } from "@/lib/currency";
+import { getTokenPrices } from "@/lib/price-oracle";
+
+// USD value of one unit of each display currency, with source and age
+export async function GET() {
+  const entries = Object.entries(CURRENCY_PRICE_IDS);
+  const prices = await getTokenPrices(entries.map(([, id]) => id));
+  return NextResponse.json({
+    rates: Object.fromEntries(entries.map(([currency, id]) => [currency, prices[id]])),
+  });
+}
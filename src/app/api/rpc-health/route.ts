@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { getRpcHealth } from "@/lib/rpc-health";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getRpcHealth());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Health check failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getChain } from "@/lib/chain-registry";
+import { parseNetwork } from "@/lib/chains";
+import {
+  parseSolanaTransaction,
+  SimulationError,
+  simulateSolanaTransaction,
+  SOLANA_MAX_TX_BYTES,
+} from "@/lib/estimate";
+import { RpcResponseError } from "@/lib/rpc";
+
+export const dynamic = "force-dynamic";
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+interface SimulateBody {
+  transaction?: unknown;
+  chain?: unknown;
+  network?: unknown;
+}
+
+export async function POST(request: NextRequest) {
+  let body: SimulateBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json({ error: "Body must be an object" }, { status: 400 });
+  }
+
+  const network = parseNetwork(typeof body.network === "string" ? body.network : null);
+  if (!network) {
+    return NextResponse.json({ error: "Unknown network" }, { status: 400 });
+  }
+  const chain = getChain(typeof body.chain === "string" ? body.chain : "solana", network);
+  if (!chain || chain.chainType !== "solana") {
+    return NextResponse.json({ error: "`chain` must be a Solana chain" }, { status: 400 });
+  }
+
+  const transaction = typeof body.transaction === "string" ? body.transaction.trim() : "";
+  const parts = BASE64.test(transaction) ? parseSolanaTransaction(transaction) : null;
+  if (!parts) {
+    return NextResponse.json(
+      {
+        error: `\`transaction\` must be a base64 serialized transaction of at most ${SOLANA_MAX_TX_BYTES} bytes`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await simulateSolanaTransaction(chain, transaction, parts));
+  } catch (error) {
+    if (error instanceof SimulationError) {
+      return NextResponse.json({ error: error.message, logs: error.logs }, { status: 400 });
+    }
+    // The node rejected the transaction itself, e.g. it failed to deserialize
+    if (error instanceof RpcResponseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "RPC error";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { EndpointHealth, RpcHealthReport } from "@/lib/rpc-health";
+
+const REFRESH_INTERVAL = 30_000;
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function statusColor(endpoint: EndpointHealth): string {
+  if (!endpoint.ok || endpoint.chainIdMatch === false) return "#ef4444";
+  if (endpoint.circuitOpen || (endpoint.blockLag ?? 0) > 5) return "#f59e0b";
+  return "#22c55e";
+}
+
+function EndpointCard({ endpoint }: { endpoint: EndpointHealth }) {
+  const stats = [
+    { label: "Latency", value: endpoint.latencyMs !== null ? `${endpoint.latencyMs}ms` : "—" },
+    { label: "Head", value: endpoint.blockNumber !== null ? `#${endpoint.blockNumber.toLocaleString()}` : "—" },
+    { label: "Lag", value: endpoint.blockLag !== null ? endpoint.blockLag.toLocaleString() : "—" },
+    {
+      label: "Chain ID",
+      value: endpoint.chainIdMatch === null ? "—" : endpoint.chainIdMatch ? "Match" : "Mismatch",
+    },
+  ];
+  const error = endpoint.error ?? endpoint.lastError;
+
+  return (
+    <div className="bg-white/[0.03] rounded-xl border border-white/[0.04] p-3.5">
+      <div className="flex items-center justify-between gap-2 mb-2.5">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: statusColor(endpoint) }} />
+          <span className="text-xs text-white truncate" title={endpoint.url}>
+            {hostOf(endpoint.url)}
+          </span>
+        </div>
+        <span className="text-[10px] text-gray-600 shrink-0">
+          {endpoint.primary ? "Primary" : "Fallback"}
+          {endpoint.circuitOpen && " · Circuit open"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-2.5">
+        {stats.map((s) => (
+          <div key={s.label}>
+            <div className="text-[10px] text-gray-600">{s.label}</div>
+            <div className="text-xs font-semibold text-white">{s.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex gap-px flex-1">
+          {endpoint.recent.map((ok, i) => (
+            <div
+              key={i}
+              className="h-3 flex-1 rounded-[1px]"
+              style={{ backgroundColor: ok ? "#22c55e" : "#ef4444", opacity: ok ? 0.6 : 0.9 }}
+            />
+          ))}
+        </div>
+        <span className="text-[10px] text-gray-500 w-10 text-right">
+          {endpoint.uptime !== null ? `${(endpoint.uptime * 100).toFixed(0)}%` : "—"}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mt-2 text-[10px] text-red-400/80 truncate" title={error}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function StatusPage() {
+  const [report, setReport] = useState<RpcHealthReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHealth = useCallback(async () => {
+    try {
+      const res = await fetch("/api/rpc-health");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch RPC health");
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch RPC health");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHealth();
+    const interval = setInterval(fetchHealth, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchHealth]);
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-10">
+      <header className="flex items-center justify-between mb-10">
+        <div>
+          <h1 className="text-lg font-semibold text-white">RPC Status</h1>
+          <p className="text-xs text-gray-400">
+            Probes every configured endpoint &middot; Uptime over recent checks
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          {report && (
+            <span className="hidden sm:inline">
+              {new Date(report.timestamp).toLocaleTimeString()}
+            </span>
+          )}
+          <Link href="/" className="text-gray-300 hover:text-white underline">
+            Gas tracker
+          </Link>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-6 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {!report && !error && (
+        <div className="text-sm text-gray-500">Probing endpoints…</div>
+      )}
+
+      <div className="space-y-8">
+        {report?.chains.map((chain) => (
+          <section key={chain.chain}>
+            <div className="flex items-center gap-3 mb-3">
+              <div className="w-1 h-5 rounded-full" style={{ backgroundColor: chain.color }} />
+              <h2 className="text-sm font-semibold text-white">{chain.name}</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+              {chain.endpoints.map((endpoint) => (
+                <EndpointCard key={endpoint.url} endpoint={endpoint} />
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -9,10 +9,14 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   Legend,
 } from "recharts";
+import { feeUnit, Network } from "@/lib/chains";
+import { costFormatter, CostFormatter, CurrencyRates, DisplayCurrency } from "@/lib/currency";
+import { GasConsensus, TokenPrice } from "@/lib/types";
 
 interface ChainGasEntry {
   chain: string;
@@ -20,9 +24,14 @@ interface ChainGasEntry {
   color: string;
   avgGwei: number;
   swapCostUsd: number;
+  executionCostUsd: number;
+  dataFeeUsd: number;
   tokenPrice: number;
+  priceQuote?: TokenPrice;
   nativeTokenSymbol: string;
   chainType?: string;
+  consensus?: GasConsensus | null;
+  stakedSwap?: { stakeAmount: number } | null;
 }
 
 interface AllChainsResponse {
@@ -33,30 +42,17 @@ interface AllChainsResponse {
 interface HistoryPoint {
   time: string;
   timestamp: number;
-  [chainId: string]: string | number;
+  // Chain ids map to the bucket average; `${chainId}${RANGE_SUFFIX}` to its [min, max]
+  [chainId: string]: string | number | [number, number];
 }
 
+const RANGE_SUFFIX = ":range";
+
 type Metric = "cost" | "perDollar";
 
 const REFRESH_INTERVAL = 20_000;
 const MAX_HISTORY = 40;
 
-function formatUsd(v: number): string {
-  if (v === 0) return "$0";
-  if (v < 0.000001) return `$${v.toExponential(2)}`;
-  if (v < 0.0001) return `$${v.toFixed(8)}`;
-  if (v < 0.01) return `$${v.toFixed(6)}`;
-  if (v < 1) return `$${v.toFixed(4)}`;
-  return `$${v.toFixed(2)}`;
-}
-
-function formatTickUsd(v: number): string {
-  if (v >= 1) return `$${v.toFixed(0)}`;
-  if (v >= 0.01) return `$${v.toFixed(2)}`;
-  if (v >= 0.0001) return `$${v.toFixed(4)}`;
-  return `$${v.toExponential(0)}`;
-}
-
 function formatCount(v: number): string {
   if (v === 0) return "0";
   if (v >= 1e6) return `${(v / 1e6).toFixed(1)}M`;
@@ -79,11 +75,14 @@ interface BarPayloadEntry {
   payload: ChainGasEntry & { fill: string; displayValue: number };
 }
 
-function makeBarTooltip(metric: Metric) {
+type FormatterFor = (chainId: string) => CostFormatter;
+
+function makeBarTooltip(metric: Metric, formatterFor: FormatterFor, priceFormatter: CostFormatter) {
   return function BarTooltipContent({ active, payload }: { active?: boolean; payload?: BarPayloadEntry[] }) {
     if (!active || !payload?.length) return null;
     const d = payload[0].payload;
     const perDollar = metric === "perDollar";
+    const fmt = formatterFor(d.chain);
     return (
       <div className="bg-gray-950/95 backdrop-blur border border-white/10 rounded-lg px-3 py-2.5 shadow-2xl text-sm">
         <div className="flex items-center gap-2 mb-1.5">
@@ -92,13 +91,33 @@ function makeBarTooltip(metric: Metric) {
         </div>
         <div className="text-gray-300 font-mono">
           {perDollar
-            ? `${formatCount(d.displayValue)} swaps / $1`
-            : formatUsd(d.swapCostUsd)}
+            ? `${formatCount(d.displayValue)} swaps / ${fmt.unit}`
+            : fmt.format(d.swapCostUsd)}
         </div>
+        {d.dataFeeUsd > 0 && (
+          <div className="text-gray-500 text-xs mt-1">
+            {fmt.format(d.executionCostUsd)} execution + {fmt.format(d.dataFeeUsd)} L1 data
+          </div>
+        )}
         <div className="text-gray-500 text-xs mt-1">
-          {perDollar && <span>{formatUsd(d.swapCostUsd)} per swap &middot; </span>}
-          {d.avgGwei < 0.01 ? d.avgGwei.toFixed(6) : d.avgGwei.toFixed(2)} {d.chainType === "solana" ? "μL/CU" : "Gwei"} &middot; {d.nativeTokenSymbol} @ ${d.tokenPrice.toFixed(2)}
+          {perDollar && <span>{fmt.format(d.swapCostUsd)} per swap &middot; </span>}
+          {d.avgGwei < 0.01 ? d.avgGwei.toFixed(6) : d.avgGwei.toFixed(2)} {feeUnit(d.chainType)} &middot; {d.nativeTokenSymbol} @ {priceFormatter.format(d.tokenPrice)}
         </div>
+        {d.stakedSwap && (
+          <div className="text-gray-500 text-xs mt-1">
+            Burn shown; with staked resources: no burn, {Math.ceil(d.stakedSwap.stakeAmount).toLocaleString()} {d.nativeTokenSymbol} staked per daily swap
+          </div>
+        )}
+        {(d.priceQuote?.fallback || d.priceQuote?.stale) && (
+          <div className="text-amber-500/80 text-xs mt-1">
+            {d.priceQuote.fallback ? "Fallback" : "Stale"} {d.nativeTokenSymbol} price
+          </div>
+        )}
+        {d.consensus?.lowConfidence && (
+          <div className="text-amber-500/80 text-xs mt-1">
+            Low confidence: {d.consensus.agreeing}/{d.consensus.responded} RPCs agree, {(d.consensus.spread * 100).toFixed(0)}% spread
+          </div>
+        )}
       </div>
     );
   };
@@ -106,7 +125,7 @@ function makeBarTooltip(metric: Metric) {
 
 interface LinePayloadEntry {
   name: string;
-  value: number;
+  value: number | [number, number];
   color: string;
   dataKey: string;
 }
@@ -115,10 +134,12 @@ function formatTimeTick(ts: number): string {
   return new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 }
 
-function makeLineTooltip(metric: Metric) {
+function makeLineTooltip(metric: Metric, formatterFor: FormatterFor) {
   return function LineTooltipContent({ active, payload, label }: { active?: boolean; payload?: LinePayloadEntry[]; label?: number }) {
     if (!active || !payload?.length) return null;
-    const sorted = [...payload].sort((a, b) => (b.value || 0) - (a.value || 0));
+    const sorted = payload
+      .filter((entry): entry is LinePayloadEntry & { value: number } => typeof entry.value === "number")
+      .sort((a, b) => (b.value || 0) - (a.value || 0));
     const perDollar = metric === "perDollar";
     const timeStr = typeof label === "number"
       ? new Date(label).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })
@@ -131,7 +152,7 @@ function makeLineTooltip(metric: Metric) {
             <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
             <span className="text-gray-400 truncate min-w-0">{entry.name}</span>
             <span className="font-mono text-white ml-auto pl-3">
-              {perDollar ? formatCount(entry.value) : formatUsd(entry.value)}
+              {perDollar ? formatCount(entry.value) : formatterFor(entry.dataKey).formatValue(entry.value)}
             </span>
           </div>
         ))}
@@ -140,7 +161,13 @@ function makeLineTooltip(metric: Metric) {
   };
 }
 
-export default function AllChainsSwapChart() {
+interface AllChainsSwapChartProps {
+  network: Network;
+  currency: DisplayCurrency;
+  rates: CurrencyRates;
+}
+
+export default function AllChainsSwapChart({ network, currency, rates }: AllChainsSwapChartProps) {
   const [latestData, setLatestData] = useState<ChainGasEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [view, setView] = useState<"bar" | "line">("bar");
@@ -154,8 +181,37 @@ export default function AllChainsSwapChart() {
   const chainMapRef = useRef<Record<string, ChainGasEntry>>({});
   const chainNamesRef = useRef<Record<string, string>>({});
 
-  const BarTooltipComponent = useMemo(() => makeBarTooltip(metric), [metric]);
-  const LineTooltipComponent = useMemo(() => makeLineTooltip(metric), [metric]);
+  // "native" converts each chain through its own token, so formatters are per chain
+  const formatterFor = useCallback(
+    (chainId: string) => {
+      const c = latestData.find((entry) => entry.chain === chainId);
+      return costFormatter(currency, rates, {
+        price: c?.tokenPrice ?? 0,
+        symbol: c?.nativeTokenSymbol ?? "",
+      });
+    },
+    [currency, rates, latestData]
+  );
+  // Token prices themselves can't be shown in their own token
+  const priceFormatter = useMemo(
+    () => costFormatter(currency === "native" ? "usd" : currency, rates, { price: 0, symbol: "" }),
+    [currency, rates]
+  );
+  // Axes mix chains, so in native mode they carry no unit
+  const axisFormatter = useMemo(
+    () => costFormatter(currency, rates, { price: 1, symbol: "" }),
+    [currency, rates]
+  );
+  const unitLabel = currency === "native" ? "1 native token" : axisFormatter.unit;
+
+  const BarTooltipComponent = useMemo(
+    () => makeBarTooltip(metric, formatterFor, priceFormatter),
+    [metric, formatterFor, priceFormatter]
+  );
+  const LineTooltipComponent = useMemo(
+    () => makeLineTooltip(metric, formatterFor),
+    [metric, formatterFor]
+  );
 
   // Load historical data from DB on mount
   const historyLoaded = useRef(false);
@@ -164,19 +220,20 @@ export default function AllChainsSwapChart() {
     historyLoaded.current = true;
     (async () => {
       try {
-        const res = await fetch("/api/history?chain=all&hours=24");
+        const res = await fetch(`/api/history?network=${network}&chain=all&hours=24`);
         if (!res.ok) return;
         const data = await res.json();
         if (data.points?.length > 0) {
           const points: HistoryPoint[] = data.points.map(
-            (p: { timestamp: number; chains: Record<string, number> }) => {
+            (p: { timestamp: number; chains: Record<string, { min: number; avg: number; max: number }> }) => {
               const date = new Date(p.timestamp);
               const point: HistoryPoint = {
                 time: date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" }),
                 timestamp: p.timestamp,
               };
-              for (const [chainId, cost] of Object.entries(p.chains)) {
-                point[chainId] = Math.max(cost, 1e-12);
+              for (const [chainId, stats] of Object.entries(p.chains)) {
+                point[chainId] = Math.max(stats.avg, 1e-12);
+                point[chainId + RANGE_SUFFIX] = [Math.max(stats.min, 1e-12), Math.max(stats.max, 1e-12)];
               }
               return point;
             }
@@ -188,11 +245,11 @@ export default function AllChainsSwapChart() {
         // silent — will build history from live data
       }
     })();
-  }, []);
+  }, [network]);
 
   const fetchData = useCallback(async () => {
     try {
-      const res = await fetch("/api/gas-all");
+      const res = await fetch(`/api/gas-all?network=${network}`);
       if (!res.ok) return;
       const data: AllChainsResponse = await res.json();
 
@@ -220,7 +277,7 @@ export default function AllChainsSwapChart() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [network]);
 
   useEffect(() => {
     fetchData();
@@ -231,34 +288,46 @@ export default function AllChainsSwapChart() {
   const isPerDollar = metric === "perDollar";
 
   const barData = useMemo(() => {
-    const sorted = [...latestData].sort((a, b) =>
-      isPerDollar
-        ? a.swapCostUsd - b.swapCostUsd // cheapest first = most swaps = biggest bar at top
-        : b.swapCostUsd - a.swapCostUsd
-    );
-    return sorted.map((c) => {
-      const cost = Math.max(c.swapCostUsd, 1e-12);
-      return {
-        ...c,
-        swapCostUsd: cost,
-        displayValue: isPerDollar ? 1 / cost : cost,
-        fill: c.color,
-      };
-    });
-  }, [latestData, isPerDollar]);
+    return latestData
+      .map((c) => {
+        const cost = Math.max(formatterFor(c.chain).convert(c.swapCostUsd), 1e-12);
+        return {
+          ...c,
+          swapCostUsd: Math.max(c.swapCostUsd, 1e-12),
+          displayValue: isPerDollar ? 1 / cost : cost,
+          fill: c.color,
+        };
+      })
+      .filter((c) => Number.isFinite(c.displayValue))
+      // Biggest bar at top: most expensive, or most swaps per unit
+      .sort((a, b) => b.displayValue - a.displayValue);
+  }, [latestData, isPerDollar, formatterFor]);
 
+  // History is stored in USD and converted at current rates
   const displayHistory = useMemo(() => {
-    if (!isPerDollar) return history;
+    if (!isPerDollar && currency === "usd") return history;
+    const toDisplay = (chainId: string, usd: number) => {
+      const cost = formatterFor(chainId).convert(usd);
+      if (!isPerDollar) return cost;
+      return cost > 0 ? 1 / cost : 0;
+    };
     return history.map((point) => {
       const transformed: HistoryPoint = { time: point.time, timestamp: point.timestamp as number };
       for (const [key, val] of Object.entries(point)) {
         if (key === "time" || key === "timestamp") continue;
-        const num = typeof val === "number" ? val : parseFloat(val as string);
-        transformed[key] = num > 0 ? 1 / num : 0;
+        if (Array.isArray(val)) {
+          const chainId = key.slice(0, -RANGE_SUFFIX.length);
+          const bounds = [toDisplay(chainId, val[0]), toDisplay(chainId, val[1])];
+          // Inverting swaps the envelope's bounds
+          transformed[key] = isPerDollar ? [bounds[1], bounds[0]] : [bounds[0], bounds[1]];
+          continue;
+        }
+        const num = typeof val === "number" ? val : parseFloat(val);
+        transformed[key] = toDisplay(key, num);
       }
       return transformed;
     });
-  }, [history, isPerDollar]);
+  }, [history, isPerDollar, currency, formatterFor]);
 
   // Set domain floor 100x below smallest value so every bar is visible on log scale
   const minDisplay = barData.length > 0
@@ -270,10 +339,11 @@ export default function AllChainsSwapChart() {
   const chainIds = Object.keys(chainMapRef.current);
   const barHeight = Math.max(400, barData.length * 32);
 
-  const tickFormatter = isPerDollar ? formatTickCount : formatTickUsd;
+  const tickFormatter = isPerDollar ? formatTickCount : axisFormatter.tick;
+  const currencyLabel = currency === "native" ? "native token" : currency.toUpperCase();
   const subtitle = isPerDollar
-    ? "DEX swaps per $1 of gas"
-    : "DEX swap cost in USD";
+    ? `DEX swaps per ${unitLabel} of gas`
+    : `DEX swap cost in ${currencyLabel}`;
 
   return (
     <div className="bg-white/[0.03] rounded-2xl border border-white/[0.06] p-5 sm:p-6">
@@ -297,7 +367,7 @@ export default function AllChainsSwapChart() {
                   metric === m ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
                 }`}
               >
-                {m === "cost" ? "Cost/Swap" : "Swaps/$1"}
+                {m === "cost" ? "Cost/Swap" : `Swaps/${currency === "native" ? "1" : unitLabel}`}
               </button>
             ))}
           </div>
@@ -377,7 +447,7 @@ export default function AllChainsSwapChart() {
             </div>
           ) : (
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={displayHistory} margin={{ left: 4, right: 12, top: 4, bottom: 4 }}>
+              <ComposedChart data={displayHistory} margin={{ left: 4, right: 12, top: 4, bottom: 4 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.03)" />
                 <XAxis
                   dataKey="timestamp"
@@ -401,6 +471,19 @@ export default function AllChainsSwapChart() {
                 />
                 <Tooltip content={<LineTooltipComponent />} />
                 <Legend iconType="circle" iconSize={7} />
+                {chainIds.map((chainId) => (
+                  <Area
+                    key={chainId + RANGE_SUFFIX}
+                    type="monotone"
+                    dataKey={chainId + RANGE_SUFFIX}
+                    stroke="none"
+                    fill={chainColorsRef.current[chainId] || "#888"}
+                    fillOpacity={0.06}
+                    legendType="none"
+                    activeDot={false}
+                    connectNulls
+                  />
+                ))}
                 {chainIds.map((chainId) => (
                   <Line
                     key={chainId}
@@ -413,7 +496,7 @@ export default function AllChainsSwapChart() {
                     connectNulls
                   />
                 ))}
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           )}
         </div>
@@ -422,8 +505,7 @@ export default function AllChainsSwapChart() {
       {/* Quick reference */}
       <div className="mt-4 pt-4 border-t border-white/[0.04]">
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-1.5">
-          {[...latestData]
-            .sort((a, b) => isPerDollar ? a.swapCostUsd - b.swapCostUsd : a.swapCostUsd - b.swapCostUsd)
+          {(isPerDollar ? barData : [...barData].reverse())
             .map((c) => (
               <div
                 key={c.chain}
@@ -433,8 +515,8 @@ export default function AllChainsSwapChart() {
                 <span className="text-gray-500 truncate">{c.name}</span>
                 <span className="text-gray-300 font-mono ml-auto">
                   {isPerDollar
-                    ? `${formatCount(1 / Math.max(c.swapCostUsd, 1e-12))}`
-                    : formatUsd(c.swapCostUsd)}
+                    ? formatCount(c.displayValue)
+                    : formatterFor(c.chain).format(c.swapCostUsd)}
                 </span>
               </div>
             ))}
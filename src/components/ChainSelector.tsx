@@ -1,13 +1,14 @@
 "use client";
 
-import { chains, ChainConfig } from "@/lib/chains";
+import { ChainConfig } from "@/lib/chains";
 
 interface ChainSelectorProps {
+  chains: ChainConfig[];
   selected: string;
   onSelect: (chainId: string) => void;
 }
 
-export default function ChainSelector({ selected, onSelect }: ChainSelectorProps) {
+export default function ChainSelector({ chains, selected, onSelect }: ChainSelectorProps) {
   return (
     <div className="flex flex-wrap gap-1.5">
       {chains.map((chain: ChainConfig) => {
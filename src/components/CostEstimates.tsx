@@ -1,13 +1,35 @@
 "use client";
 
-import { GasData } from "@/lib/types";
-import { COMMON_TRANSACTIONS, SOLANA_COMMON_TRANSACTIONS, SOLANA_BASE_FEE_LAMPORTS } from "@/lib/chains";
+import { GasData, TokenPrice } from "@/lib/types";
+import {
+  BITCOIN_COMMON_TRANSACTIONS,
+  CatalogTransaction,
+  SOLANA_COMMON_TRANSACTIONS,
+  SOLANA_BASE_FEE_LAMPORTS,
+  STARKNET_COMMON_TRANSACTIONS,
+  starknetFee,
+  TRON_COMMON_TRANSACTIONS,
+  tronCost,
+} from "@/lib/chains";
+import { CostFormatter } from "@/lib/currency";
 
 interface CostEstimatesProps {
   data: GasData | null;
   tokenPrice: number;
+  priceQuote?: TokenPrice | null;
   tokenSymbol: string;
+  formatter: CostFormatter;
   chainType?: string;
+  // EVM: the chain's catalog from chainTransactions
+  transactions: CatalogTransaction[];
+  // Starknet: USD price of ETH, for fees paid in ETH
+  ethPrice?: number;
+}
+
+function formatCompact(n: number): string {
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(0)}K`;
+  return n.toString();
 }
 
 function formatUsd(usd: number): string {
@@ -19,8 +41,13 @@ function formatUsd(usd: number): string {
   return `$${usd.toFixed(2)}`;
 }
 
-function evmCost(gasLimit: number, gweiPrice: number, tokenPrice: number): string {
-  return formatUsd(((gweiPrice * gasLimit) / 1e9) * tokenPrice);
+function evmCost(
+  gasLimit: number,
+  gweiPrice: number,
+  tokenPrice: number,
+  dataFeeGwei = 0
+): number {
+  return ((gweiPrice * gasLimit + dataFeeGwei) / 1e9) * tokenPrice;
 }
 
 function solanaCost(
@@ -28,10 +55,14 @@ function solanaCost(
   signatures: number,
   priorityFee: number,
   tokenPrice: number
-): string {
+): number {
   const baseLamports = SOLANA_BASE_FEE_LAMPORTS * signatures;
   const priorityLamports = (priorityFee * computeUnits) / 1e6;
-  return formatUsd(((baseLamports + priorityLamports) / 1e9) * tokenPrice);
+  return ((baseLamports + priorityLamports) / 1e9) * tokenPrice;
+}
+
+function bitcoinCost(vbytes: number, satPerVb: number, tokenPrice: number): number {
+  return ((vbytes * satPerVb) / 1e8) * tokenPrice;
 }
 
 const icons: Record<string, string> = {
@@ -45,7 +76,24 @@ const icons: Record<string, string> = {
   code: "\u{1F4BB}",
 };
 
-export default function CostEstimates({ data, tokenPrice, tokenSymbol, chainType }: CostEstimatesProps) {
+const tierColors = { low: "#34d399", average: "#60a5fa", high: "#fb923c" };
+
+function formatAge(ms: number): string {
+  if (ms < 60_000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 3600_000) return `${Math.round(ms / 60_000)}m`;
+  return `${Math.round(ms / 3600_000)}h`;
+}
+
+export default function CostEstimates({
+  data,
+  tokenPrice,
+  priceQuote,
+  tokenSymbol,
+  formatter,
+  chainType,
+  transactions,
+  ethPrice,
+}: CostEstimatesProps) {
   if (!data) {
     return (
       <div className="bg-white/[0.03] rounded-2xl border border-white/[0.06] p-5">
@@ -60,24 +108,100 @@ export default function CostEstimates({ data, tokenPrice, tokenSymbol, chainType
   }
 
   const isSolana = chainType === "solana";
+  const isBitcoin = chainType === "bitcoin";
+  const starknetFees = data.starknetFees ?? null;
+  const tronFees = data.tronFees ?? null;
+  const l1DataFee = data.l1DataFee ?? null;
+  const gasUnitScale = data.zkSyncFee?.gasUnitScale ?? 1;
 
   return (
     <div className="bg-white/[0.03] rounded-2xl border border-white/[0.06] p-5">
       <h3 className="text-sm font-semibold text-white mb-0.5">Cost Estimates</h3>
-      <p className="text-[11px] text-gray-600 mb-3">Current prices ({tokenSymbol})</p>
+      <p className={`text-[11px] text-gray-600 ${priceQuote ? "mb-1" : "mb-3"}`}>
+        Current prices ({tokenSymbol}){l1DataFee && <> &middot; incl. L1 data fee</>}
+        {data.zkSyncFee && <> &middot; zkSync gas units, {data.zkSyncFee.gasPerPubdata} gas/pubdata byte</>}
+      </p>
+      {priceQuote && (
+        <p className={`text-[10px] mb-3 ${priceQuote.fallback || priceQuote.stale ? "text-amber-500/80" : "text-gray-600"}`}>
+          {tokenSymbol} @ {formatUsd(priceQuote.price)}{" "}
+          {priceQuote.fallback
+            ? "· fallback price, live sources unavailable"
+            : `via ${priceQuote.source}${priceQuote.ageMs !== null ? `, ${formatAge(priceQuote.ageMs)} old` : ""}${priceQuote.stale ? " (stale)" : ""}`}
+        </p>
+      )}
       <div className="overflow-x-auto -mx-1">
         <table className="w-full text-xs">
           <thead>
-            <tr className="text-[10px] text-gray-600 uppercase tracking-wider">
-              <th className="text-left pb-2 pl-1 font-medium">Action</th>
-              <th className="text-right pb-2 font-medium">{isSolana ? "CU" : "Gas"}</th>
-              <th className="text-right pb-2 font-medium" style={{ color: "#34d399" }}>Low</th>
-              <th className="text-right pb-2 font-medium" style={{ color: "#60a5fa" }}>Avg</th>
-              <th className="text-right pb-2 pr-1 font-medium" style={{ color: "#fb923c" }}>High</th>
-            </tr>
+            {tronFees ? (
+              <tr className="text-[10px] text-gray-600 uppercase tracking-wider">
+                <th className="text-left pb-2 pl-1 font-medium">Action</th>
+                <th className="text-right pb-2 font-medium">Energy</th>
+                <th className="text-right pb-2 font-medium">Bandwidth</th>
+                <th className="text-right pb-2 font-medium" style={{ color: "#fb923c" }}>Burn</th>
+                <th className="text-right pb-2 pr-1 font-medium" style={{ color: "#34d399" }}>Stake / Day</th>
+              </tr>
+            ) : starknetFees ? (
+              <tr className="text-[10px] text-gray-600 uppercase tracking-wider">
+                <th className="text-left pb-2 pl-1 font-medium">Action</th>
+                <th className="text-right pb-2 font-medium">L2 Gas</th>
+                <th className="text-right pb-2 font-medium">L1 Data</th>
+                <th className="text-right pb-2 font-medium" style={{ color: "#60a5fa" }}>Paid in STRK</th>
+                <th className="text-right pb-2 pr-1 font-medium">Paid in ETH</th>
+              </tr>
+            ) : (
+              <tr className="text-[10px] text-gray-600 uppercase tracking-wider">
+                <th className="text-left pb-2 pl-1 font-medium">Action</th>
+                <th className="text-right pb-2 font-medium">{isSolana ? "CU" : isBitcoin ? "vB" : "Gas"}</th>
+                {l1DataFee && <th className="text-right pb-2 font-medium">L1 Data</th>}
+                <th className="text-right pb-2 font-medium" style={{ color: "#34d399" }}>Low</th>
+                <th className="text-right pb-2 font-medium" style={{ color: "#60a5fa" }}>Avg</th>
+                <th className="text-right pb-2 pr-1 font-medium" style={{ color: "#fb923c" }}>High</th>
+              </tr>
+            )}
           </thead>
           <tbody>
-            {isSolana
+            {tronFees
+              ? TRON_COMMON_TRANSACTIONS.map((tx, i) => {
+                  const cost = tronCost(tx, tronFees);
+                  return (
+                    <tr key={tx.name} className={i % 2 === 0 ? "bg-white/[0.015]" : ""}>
+                      <td className="py-2 pl-1 text-gray-400">
+                        <span className="mr-1.5 opacity-60">{icons[tx.icon] || ""}</span>
+                        {tx.name}
+                      </td>
+                      <td className="py-2 text-gray-600 text-right font-mono">{formatCompact(tx.energy)}</td>
+                      <td className="py-2 text-gray-600 text-right font-mono">{tx.bandwidth}</td>
+                      <td className="py-2 text-right font-mono" style={{ color: "#fb923c" }}>
+                        {formatter.format(cost.burnTrx * tokenPrice)}
+                      </td>
+                      <td className="py-2 pr-1 text-right font-mono" style={{ color: "#34d399" }}>
+                        {cost.stakeTrx !== null ? `${Math.ceil(cost.stakeTrx).toLocaleString()} TRX` : "—"}
+                      </td>
+                    </tr>
+                  );
+                })
+              : starknetFees
+              ? STARKNET_COMMON_TRANSACTIONS.map((tx, i) => {
+                  const strk = starknetFee(tx, starknetFees, "fri");
+                  const eth = starknetFee(tx, starknetFees, "wei");
+                  return (
+                    <tr key={tx.name} className={i % 2 === 0 ? "bg-white/[0.015]" : ""}>
+                      <td className="py-2 pl-1 text-gray-400">
+                        <span className="mr-1.5 opacity-60">{icons[tx.icon] || ""}</span>
+                        {tx.name}
+                      </td>
+                      <td className="py-2 text-gray-600 text-right font-mono">{formatCompact(tx.l2Gas)}</td>
+                      <td className="py-2 text-gray-600 text-right font-mono">{tx.l1DataGas}</td>
+                      <td className="py-2 text-right font-mono" style={{ color: "#60a5fa" }}>
+                        {formatter.format((strk.execution + strk.data) * tokenPrice)}
+                      </td>
+                      <td className="py-2 pr-1 text-gray-500 text-right font-mono">
+                        {formatter.format((eth.execution + eth.data) * (ethPrice ?? NaN))}
+                      </td>
+                    </tr>
+                  );
+                })
+              : isSolana
               ? SOLANA_COMMON_TRANSACTIONS.map((tx, i) => (
                   <tr key={tx.name} className={i % 2 === 0 ? "bg-white/[0.015]" : ""}>
                     <td className="py-2 pl-1 text-gray-400">
@@ -88,36 +212,65 @@ export default function CostEstimates({ data, tokenPrice, tokenSymbol, chainType
                       {tx.computeUnits >= 1000 ? `${(tx.computeUnits / 1000).toFixed(0)}K` : tx.computeUnits}
                     </td>
                     <td className="py-2 text-right font-mono" style={{ color: "#34d399" }}>
-                      {solanaCost(tx.computeUnits, tx.signatures, data.low, tokenPrice)}
+                      {formatter.format(solanaCost(tx.computeUnits, tx.signatures, data.low, tokenPrice))}
                     </td>
                     <td className="py-2 text-right font-mono" style={{ color: "#60a5fa" }}>
-                      {solanaCost(tx.computeUnits, tx.signatures, data.average, tokenPrice)}
+                      {formatter.format(solanaCost(tx.computeUnits, tx.signatures, data.average, tokenPrice))}
                     </td>
                     <td className="py-2 pr-1 text-right font-mono" style={{ color: "#fb923c" }}>
-                      {solanaCost(tx.computeUnits, tx.signatures, data.high, tokenPrice)}
+                      {formatter.format(solanaCost(tx.computeUnits, tx.signatures, data.high, tokenPrice))}
                     </td>
                   </tr>
                 ))
-              : COMMON_TRANSACTIONS.map((tx, i) => (
+              : isBitcoin
+              ? BITCOIN_COMMON_TRANSACTIONS.map((tx, i) => (
                   <tr key={tx.name} className={i % 2 === 0 ? "bg-white/[0.015]" : ""}>
                     <td className="py-2 pl-1 text-gray-400">
                       <span className="mr-1.5 opacity-60">{icons[tx.icon] || ""}</span>
                       {tx.name}
                     </td>
-                    <td className="py-2 text-gray-600 text-right font-mono">
-                      {tx.gasLimit >= 1000 ? `${(tx.gasLimit / 1000).toFixed(0)}K` : tx.gasLimit}
-                    </td>
-                    <td className="py-2 text-right font-mono" style={{ color: "#34d399" }}>
-                      {evmCost(tx.gasLimit, data.low, tokenPrice)}
-                    </td>
-                    <td className="py-2 text-right font-mono" style={{ color: "#60a5fa" }}>
-                      {evmCost(tx.gasLimit, data.average, tokenPrice)}
-                    </td>
-                    <td className="py-2 pr-1 text-right font-mono" style={{ color: "#fb923c" }}>
-                      {evmCost(tx.gasLimit, data.high, tokenPrice)}
-                    </td>
+                    <td className="py-2 text-gray-600 text-right font-mono">{tx.vbytes}</td>
+                    {(["low", "average", "high"] as const).map((tier) => (
+                      <td
+                        key={tier}
+                        className={`py-2 text-right font-mono ${tier === "high" ? "pr-1" : ""}`}
+                        style={{ color: tierColors[tier] }}
+                        title={`${Math.ceil(tx.vbytes * data[tier]).toLocaleString()} sats`}
+                      >
+                        {formatter.format(bitcoinCost(tx.vbytes, data[tier], tokenPrice))}
+                      </td>
+                    ))}
                   </tr>
-                ))}
+                ))
+              : transactions.map((tx, i) => {
+                  const gasLimit = Math.round(tx.gasLimit * (tx.chainUnits ? 1 : gasUnitScale));
+                  const dataFeeGwei = l1DataFee ? l1DataFee.feePerByte * tx.txBytes : 0;
+                  return (
+                    <tr key={tx.name} className={i % 2 === 0 ? "bg-white/[0.015]" : ""}>
+                      <td className="py-2 pl-1 text-gray-400">
+                        <span className="mr-1.5 opacity-60">{icons[tx.icon] || ""}</span>
+                        {tx.name}
+                      </td>
+                      <td className="py-2 text-gray-600 text-right font-mono">
+                        {gasLimit >= 1000 ? `${(gasLimit / 1000).toFixed(0)}K` : gasLimit}
+                      </td>
+                      {l1DataFee && (
+                        <td className="py-2 text-gray-500 text-right font-mono">
+                          {formatter.format((dataFeeGwei / 1e9) * tokenPrice)}
+                        </td>
+                      )}
+                      <td className="py-2 text-right font-mono" style={{ color: "#34d399" }}>
+                        {formatter.format(evmCost(gasLimit, data.low, tokenPrice, dataFeeGwei))}
+                      </td>
+                      <td className="py-2 text-right font-mono" style={{ color: "#60a5fa" }}>
+                        {formatter.format(evmCost(gasLimit, data.average, tokenPrice, dataFeeGwei))}
+                      </td>
+                      <td className="py-2 pr-1 text-right font-mono" style={{ color: "#fb923c" }}>
+                        {formatter.format(evmCost(gasLimit, data.high, tokenPrice, dataFeeGwei))}
+                      </td>
+                    </tr>
+                  );
+                })}
           </tbody>
         </table>
       </div>
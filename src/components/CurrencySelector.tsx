@@ -0,0 +1,26 @@
+"use client";
+
+import { DISPLAY_CURRENCIES, DisplayCurrency } from "@/lib/currency";
+
+interface CurrencySelectorProps {
+  selected: DisplayCurrency;
+  onSelect: (currency: DisplayCurrency) => void;
+}
+
+export default function CurrencySelector({ selected, onSelect }: CurrencySelectorProps) {
+  return (
+    <div className="flex gap-0.5 bg-white/[0.04] rounded-lg p-0.5">
+      {DISPLAY_CURRENCIES.map((c) => (
+        <button
+          key={c.id}
+          onClick={() => onSelect(c.id)}
+          className={`px-2 py-1 rounded-md text-[10px] font-medium transition-colors cursor-pointer ${
+            selected === c.id ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          {c.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { ChainConfig, chainTransactions, chainTransfer, Network } from "@/lib/chains";
+import { GasData, GasHistoryPoint, PricePoint, TokenPrice } from "@/lib/types";
+import ChainSelector from "@/components/ChainSelector";
+import NetworkSelector from "@/components/NetworkSelector";
+import GasTiers from "@/components/GasTiers";
+import CostEstimates from "@/components/CostEstimates";
+import GasChart, { HistoryRange } from "@/components/GasChart";
+import NetworkStats from "@/components/NetworkStats";
+import AllChainsSwapChart from "@/components/AllChainsSwapChart";
+import CurrencySelector from "@/components/CurrencySelector";
+import TransactionEstimator from "@/components/TransactionEstimator";
+import { costFormatter, CurrencyRates, DisplayCurrency } from "@/lib/currency";
+
+const REFRESH_INTERVAL = 15_000;
+const RATES_REFRESH_INTERVAL = 300_000;
+const MAX_HISTORY = 60;
+
+const HISTORY_RANGE_HOURS: Record<HistoryRange, number> = {
+  live: 6,
+  "7d": 24 * 7,
+  "30d": 24 * 30,
+  "90d": 24 * 90,
+  "1y": 24 * 365,
+};
+
+async function fetchHistory(
+  network: Network,
+  chainId: string,
+  hours: number
+): Promise<GasHistoryPoint[]> {
+  const res = await fetch(`/api/history?network=${network}&chain=${chainId}&hours=${hours}`);
+  if (!res.ok) return [];
+  const data = await res.json();
+  return (data.points ?? []).map(
+    (p: { timestamp: number; low: number; average: number; high: number; min: number; max: number }) => {
+      const date = new Date(p.timestamp);
+      return {
+        time: date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" }),
+        timestamp: p.timestamp,
+        low: p.low,
+        average: p.average,
+        high: p.high,
+        range: [p.min, p.max],
+      };
+    }
+  );
+}
+
+async function fetchPriceHistory(tokenId: string, hours: number): Promise<PricePoint[]> {
+  const res = await fetch(`/api/price?token=${tokenId}&hours=${hours}`);
+  if (!res.ok) return [];
+  const data = await res.json();
+  return (data.points ?? []).map((p: { timestamp: number; price: number }) => ({
+    timestamp: p.timestamp,
+    price: p.price,
+  }));
+}
+
+interface DashboardProps {
+  chains: Record<Network, ChainConfig[]>;
+}
+
+export default function Dashboard({ chains: chainsByNetwork }: DashboardProps) {
+  const [network, setNetwork] = useState<Network>("mainnet");
+  const chains = chainsByNetwork[network];
+  const [selectedChain, setSelectedChain] = useState(chains[0].id);
+  const [gasData, setGasData] = useState<GasData | null>(null);
+  const [tokenPrice, setTokenPrice] = useState(0);
+  const [priceQuote, setPriceQuote] = useState<TokenPrice | null>(null);
+  const [, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const historyRef = useRef<Record<string, GasHistoryPoint[]>>({});
+  const [history, setHistory] = useState<GasHistoryPoint[]>([]);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>("live");
+  const [rangeHistory, setRangeHistory] = useState<GasHistoryPoint[] | null>(null);
+  const [showPrice, setShowPrice] = useState(false);
+  const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
+  const [currency, setCurrency] = useState<DisplayCurrency>("usd");
+  const [rates, setRates] = useState<CurrencyRates>({});
+  const [solanaPreset, setSolanaPreset] = useState("global");
+
+  const chain = chains.find((c) => c.id === selectedChain)!;
+  // Live history is kept per network, since both share chain ids
+  const historyKey = `${network}:${selectedChain}`;
+
+  // Keep the selected chain when it has a variant on the other network
+  const selectNetwork = (next: Network) => {
+    const available = chainsByNetwork[next];
+    if (!available.some((c) => c.id === selectedChain)) setSelectedChain(available[0].id);
+    setNetwork(next);
+  };
+  const formatter = costFormatter(currency, rates, {
+    price: tokenPrice,
+    symbol: chain.nativeTokenSymbol,
+  });
+
+  useEffect(() => {
+    const loadRates = async () => {
+      try {
+        const res = await fetch("/api/rates");
+        if (!res.ok) return;
+        const data: { rates: Record<string, TokenPrice> } = await res.json();
+        setRates(
+          Object.fromEntries(
+            Object.entries(data.rates).map(([id, quote]) => [id, quote.price])
+          )
+        );
+      } catch {
+        // silent — non-USD currencies show "—" until rates load
+      }
+    };
+    loadRates();
+    const interval = setInterval(loadRates, RATES_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Load per-chain historical data from DB when chain changes
+  useEffect(() => {
+    (async () => {
+      try {
+        const points = await fetchHistory(network, selectedChain, HISTORY_RANGE_HOURS.live);
+        if (points.length > 0) {
+          historyRef.current[historyKey] = points.slice(-MAX_HISTORY);
+          setHistory([...historyRef.current[historyKey]]);
+        }
+      } catch {
+        // silent — will build from live data
+      }
+    })();
+  }, [network, selectedChain, historyKey]);
+
+  // Longer ranges come straight from the rollup tiers and aren't extended
+  // with live readings
+  useEffect(() => {
+    if (historyRange === "live") {
+      setRangeHistory(null);
+      return;
+    }
+    let cancelled = false;
+    setRangeHistory([]);
+    fetchHistory(network, selectedChain, HISTORY_RANGE_HOURS[historyRange])
+      .then((points) => {
+        if (!cancelled) setRangeHistory(points);
+      })
+      .catch(() => {
+        // silent — chart shows the empty state
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [network, selectedChain, historyRange]);
+
+  // Stored price series for the overlay; live readings also carry their own price
+  useEffect(() => {
+    if (!showPrice) return;
+    let cancelled = false;
+    fetchPriceHistory(chain.nativeToken, HISTORY_RANGE_HOURS[historyRange])
+      .then((points) => {
+        if (!cancelled) setPriceHistory(points);
+      })
+      .catch(() => {
+        // silent — overlay only shows live prices
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showPrice, chain.nativeToken, historyRange]);
+
+  const isSolana = chain.chainType === "solana";
+  const fetchGasData = useCallback(async () => {
+    try {
+      const preset = isSolana ? `&preset=${solanaPreset}` : "";
+      const [gasRes, priceRes] = await Promise.all([
+        fetch(`/api/gas?network=${network}&chain=${selectedChain}${preset}`),
+        fetch(`/api/price?token=${chain.nativeToken}`),
+      ]);
+
+      if (!gasRes.ok) {
+        const err = await gasRes.json();
+        throw new Error(err.error || "Failed to fetch gas data");
+      }
+
+      const gas: GasData = await gasRes.json();
+      const price: TokenPrice = await priceRes.json();
+
+      setGasData(gas);
+      setTokenPrice(price.price);
+      setPriceQuote(price);
+      setError(null);
+      setLastUpdated(new Date());
+
+      const now = new Date();
+      const timeStr = now.toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+
+      const point: GasHistoryPoint = {
+        time: timeStr,
+        timestamp: now.getTime(),
+        low: gas.low,
+        average: gas.average,
+        high: gas.high,
+        price: price.price,
+      };
+
+      const chainHistory = historyRef.current[historyKey] || [];
+      const updatedHistory = [...chainHistory, point].slice(-MAX_HISTORY);
+      historyRef.current[historyKey] = updatedHistory;
+      setHistory(updatedHistory);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch data");
+    } finally {
+      setLoading(false);
+    }
+  }, [network, selectedChain, historyKey, chain.nativeToken, isSolana, solanaPreset]);
+
+  useEffect(() => {
+    setLoading(true);
+    setGasData(null);
+    setHistory(historyRef.current[historyKey] || []);
+    fetchGasData();
+  }, [historyKey, fetchGasData]);
+
+  useEffect(() => {
+    const interval = setInterval(fetchGasData, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchGasData]);
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-10">
+      {/* Header */}
+      <header className="flex items-center justify-between mb-10">
+        <div className="flex items-center gap-4">
+          {/* London Underground roundel logo */}
+          <svg viewBox="0 0 200 160" className="h-14 sm:h-16 w-auto shrink-0" aria-label="Mind The Gas">
+            <circle cx="100" cy="80" r="68" fill="#E1251B" />
+            <circle cx="100" cy="80" r="44" fill="#0e0e10" />
+            <rect x="0" y="62" width="200" height="36" fill="#003688" />
+            <text x="100" y="87" textAnchor="middle" fill="white" fontFamily="system-ui, sans-serif" fontWeight="700" fontSize="22" letterSpacing="2">MIND THE GAS</text>
+          </svg>
+          <p className="text-xs text-gray-400 hidden sm:block">
+            Real-time gas tracker
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <CurrencySelector selected={currency} onSelect={setCurrency} />
+          {lastUpdated && (
+            <span className="hidden sm:inline">
+              {lastUpdated.toLocaleTimeString()}
+            </span>
+          )}
+          <span className="flex items-center gap-1.5">
+            <span
+              className="w-1.5 h-1.5 rounded-full animate-pulse-dot"
+              style={{ backgroundColor: error ? "#ef4444" : "#22c55e" }}
+            />
+            {error ? "Error" : "Live"}
+          </span>
+        </div>
+      </header>
+
+      {/* Error */}
+      {error && (
+        <div className="mb-6 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-3 text-sm text-red-400 flex items-center justify-between">
+          <span>{error}</span>
+          <button
+            onClick={fetchGasData}
+            className="text-xs underline hover:no-underline ml-4 shrink-0 cursor-pointer"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* === All Chains Comparison (top-level, always visible) === */}
+      <section className="mb-10">
+        {/* Keyed so switching networks starts from a clean series */}
+        <AllChainsSwapChart key={network} network={network} currency={currency} rates={rates} />
+      </section>
+
+      {/* === Per-Chain Detail === */}
+      <section>
+        <div className="flex items-center gap-3 mb-5">
+          <div className="w-1 h-5 rounded-full" style={{ backgroundColor: chain.color }} />
+          <h2 className="text-base font-semibold text-white">Chain Detail</h2>
+        </div>
+
+        <div className="mb-5 flex items-start gap-3">
+          {chainsByNetwork.testnet.length > 0 && (
+            <NetworkSelector selected={network} onSelect={selectNetwork} />
+          )}
+          <ChainSelector chains={chains} selected={selectedChain} onSelect={setSelectedChain} />
+        </div>
+
+        <div className="mb-5">
+          <GasTiers
+            data={gasData}
+            tokenPrice={tokenPrice}
+            tokenSymbol={chain.nativeTokenSymbol}
+            formatter={formatter}
+            chainColor={chain.color}
+            chainType={chain.chainType}
+            transfer={chainTransfer(chain)}
+            accountPreset={solanaPreset}
+            onAccountPresetChange={setSolanaPreset}
+          />
+        </div>
+
+        <div className="mb-5">
+          <NetworkStats data={gasData} chain={chain} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+          <GasChart
+            history={rangeHistory ?? history}
+            chainColor={chain.color}
+            chainType={chain.chainType}
+            range={historyRange}
+            onRangeChange={setHistoryRange}
+            tokenSymbol={chain.nativeTokenSymbol}
+            priceHistory={priceHistory}
+            showPrice={showPrice}
+            onShowPriceChange={setShowPrice}
+          />
+          <CostEstimates
+            data={gasData}
+            tokenPrice={tokenPrice}
+            priceQuote={priceQuote}
+            tokenSymbol={chain.nativeTokenSymbol}
+            formatter={formatter}
+            chainType={chain.chainType}
+            transactions={chainTransactions(chain)}
+            ethPrice={rates.eth}
+          />
+        </div>
+      </section>
+
+      {/* === Custom Transaction Estimate === */}
+      <section className="mt-10">
+        {/* Keyed so the chain picks reset with the network */}
+        <TransactionEstimator
+          key={network}
+          chains={chains}
+          network={network}
+          currency={currency}
+          rates={rates}
+        />
+      </section>
+
+      {/* Footer */}
+      <footer className="text-center text-[11px] text-gray-400 mt-12 pt-6 border-t border-white/5 space-y-1.5">
+        <div>Mind The Gas &middot; Public RPCs &middot; CoinGecko prices &middot; Refreshes every {REFRESH_INTERVAL / 1000}s &middot; <Link href="/status" className="text-gray-300 hover:text-white underline">RPC status</Link></div>
+        <div>Made with love by <a href="https://x.com/0xcarnation" target="_blank" rel="noopener noreferrer" className="text-gray-300 hover:text-white underline">0xcarnation</a>. Powered by Claude.</div>
+      </footer>
+    </main>
+  );
+}
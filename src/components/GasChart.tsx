@@ -1,10 +1,12 @@
 "use client";
 
-import { useState } from "react";
-import { GasHistoryPoint } from "@/lib/types";
+import { useMemo, useState } from "react";
+import { feeUnit } from "@/lib/chains";
+import { GasHistoryPoint, PricePoint } from "@/lib/types";
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -12,22 +14,72 @@ import {
   ResponsiveContainer,
 } from "recharts";
 
+export type HistoryRange = "live" | "7d" | "30d" | "90d" | "1y";
+
+const RANGE_LABELS: Record<HistoryRange, string> = {
+  live: "Live",
+  "7d": "7D",
+  "30d": "30D",
+  "90d": "90D",
+  "1y": "1Y",
+};
+
 interface GasChartProps {
   history: GasHistoryPoint[];
   chainColor: string;
   chainType?: string;
+  range: HistoryRange;
+  onRangeChange: (range: HistoryRange) => void;
+  tokenSymbol: string;
+  priceHistory: PricePoint[];
+  showPrice: boolean;
+  onShowPriceChange: (show: boolean) => void;
 }
 
 interface PayloadEntry {
   name: string;
-  value: number;
+  value: number | [number, number];
   color: string;
+  dataKey: string;
+}
+
+function formatValue(value: number): string {
+  if (value < 0.0001) return value.toExponential(2);
+  if (value < 0.01) return value.toFixed(6);
+  if (value < 1) return value.toFixed(4);
+  return value.toFixed(2);
+}
+
+// Fills in `price` from the stored series for points that don't carry one,
+// using the nearest sample no further than about two sample intervals away
+function withPrices(history: GasHistoryPoint[], prices: PricePoint[]): GasHistoryPoint[] {
+  if (prices.length === 0) return history;
+  const span = prices[prices.length - 1].timestamp - prices[0].timestamp;
+  const tolerance = Math.max(2 * (span / prices.length), 120_000);
+  let j = 0;
+  return history.map((point) => {
+    if (point.price !== undefined) return point;
+    while (
+      j < prices.length - 1 &&
+      Math.abs(prices[j + 1].timestamp - point.timestamp) <= Math.abs(prices[j].timestamp - point.timestamp)
+    ) {
+      j++;
+    }
+    const nearest = prices[j];
+    return Math.abs(nearest.timestamp - point.timestamp) <= tolerance
+      ? { ...point, price: nearest.price }
+      : point;
+  });
 }
 
 function formatTimeTick(ts: number): string {
   return new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 }
 
+function formatDateTick(ts: number): string {
+  return new Date(ts).toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
 function makeTooltip(unitLabel: string) {
   return function ChartTooltip({ active, payload, label }: { active?: boolean; payload?: PayloadEntry[]; label?: number }) {
     if (!active || !payload?.length) return null;
@@ -37,20 +89,14 @@ function makeTooltip(unitLabel: string) {
     return (
       <div className="bg-gray-950/95 backdrop-blur border border-white/10 rounded-lg px-3 py-2.5 shadow-2xl">
         <p className="text-[11px] text-gray-500 mb-1.5">{timeStr}</p>
-        {payload.map((entry) => (
+        {payload.filter((entry) => typeof entry.value === "number").map((entry) => (
           <div key={entry.name} className="flex items-center gap-2 text-xs py-px">
             <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: entry.color }} />
             <span className="text-gray-400">{entry.name}</span>
             <span className="font-mono text-white ml-auto pl-3">
-              {typeof entry.value === "number"
-                ? entry.value < 0.0001
-                  ? entry.value.toExponential(2)
-                  : entry.value < 0.01
-                  ? entry.value.toFixed(6)
-                  : entry.value < 1
-                  ? entry.value.toFixed(4)
-                  : entry.value.toFixed(2)
-                : entry.value} {unitLabel}
+              {entry.dataKey === "price"
+                ? `$${formatValue(entry.value as number)}`
+                : `${formatValue(entry.value as number)} ${unitLabel}`}
             </span>
           </div>
         ))}
@@ -59,17 +105,67 @@ function makeTooltip(unitLabel: string) {
   };
 }
 
-export default function GasChart({ history, chainColor, chainType }: GasChartProps) {
+function RangeSelector({ range, onRangeChange }: Pick<GasChartProps, "range" | "onRangeChange">) {
+  return (
+    <div className="flex gap-0.5 bg-white/[0.04] rounded-lg p-0.5">
+      {(Object.keys(RANGE_LABELS) as HistoryRange[]).map((r) => (
+        <button
+          key={r}
+          onClick={() => onRangeChange(r)}
+          className={`px-2.5 py-1 rounded-md text-[10px] font-medium transition-colors cursor-pointer ${
+            range === r ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          {RANGE_LABELS[r]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function PriceToggle({ tokenSymbol, showPrice, onShowPriceChange }: Pick<GasChartProps, "tokenSymbol" | "showPrice" | "onShowPriceChange">) {
+  return (
+    <button
+      onClick={() => onShowPriceChange(!showPrice)}
+      className={`px-2.5 py-1 rounded-lg text-[10px] font-medium transition-colors cursor-pointer bg-white/[0.04] ${
+        showPrice ? "text-white" : "text-gray-500 hover:text-gray-300"
+      }`}
+      title={`Overlay ${tokenSymbol} USD price`}
+    >
+      {tokenSymbol} $
+    </button>
+  );
+}
+
+export default function GasChart({
+  history,
+  chainColor,
+  chainType,
+  range,
+  onRangeChange,
+  tokenSymbol,
+  priceHistory,
+  showPrice,
+  onShowPriceChange,
+}: GasChartProps) {
   const [yScale, setYScale] = useState<"log" | "linear">("log");
-  const isSolana = chainType === "solana";
-  const unitLabel = isSolana ? "μL/CU" : "Gwei";
+  const data = useMemo(
+    () => (showPrice ? withPrices(history, priceHistory) : history),
+    [history, priceHistory, showPrice]
+  );
+  const unitLabel = feeUnit(chainType);
   const TooltipContent = makeTooltip(unitLabel);
 
   if (history.length < 2) {
     return (
       <div className="bg-white/[0.03] rounded-2xl border border-white/[0.06] p-5">
-        <h3 className="text-sm font-semibold text-white mb-0.5">Gas Price History</h3>
-        <p className="text-[11px] text-gray-600 mb-4">Collecting data... ({history.length}/2)</p>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white mb-0.5">Gas Price History</h3>
+            <p className="text-[11px] text-gray-600">Collecting data... ({history.length}/2)</p>
+          </div>
+          <RangeSelector range={range} onRangeChange={onRangeChange} />
+        </div>
         <div className="h-56 flex items-center justify-center text-gray-700 text-sm">
           Chart appears after a few data points
         </div>
@@ -84,23 +180,27 @@ export default function GasChart({ history, chainColor, chainType }: GasChartPro
           <h3 className="text-sm font-semibold text-white mb-0.5">Gas Price History</h3>
           <p className="text-[11px] text-gray-600">{history.length} readings ({unitLabel}) &middot; {yScale} scale</p>
         </div>
-        <div className="flex gap-0.5 bg-white/[0.04] rounded-lg p-0.5">
-          {(["log", "linear"] as const).map((s) => (
-            <button
-              key={s}
-              onClick={() => setYScale(s)}
-              className={`px-2.5 py-1 rounded-md text-[10px] font-medium transition-colors cursor-pointer ${
-                yScale === s ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
-              }`}
-            >
-              {s === "log" ? "Log" : "Linear"}
-            </button>
-          ))}
+        <div className="flex items-center gap-2">
+          <PriceToggle tokenSymbol={tokenSymbol} showPrice={showPrice} onShowPriceChange={onShowPriceChange} />
+          <RangeSelector range={range} onRangeChange={onRangeChange} />
+          <div className="flex gap-0.5 bg-white/[0.04] rounded-lg p-0.5">
+            {(["log", "linear"] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => setYScale(s)}
+                className={`px-2.5 py-1 rounded-md text-[10px] font-medium transition-colors cursor-pointer ${
+                  yScale === s ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {s === "log" ? "Log" : "Linear"}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
       <div className="h-56">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={history} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <ComposedChart data={data} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
             <defs>
               <linearGradient id="colorHigh" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#f97316" stopOpacity={0.2} />
@@ -121,7 +221,7 @@ export default function GasChart({ history, chainColor, chainType }: GasChartPro
               type="number"
               scale="time"
               domain={["auto", "auto"]}
-              tickFormatter={formatTimeTick}
+              tickFormatter={range === "live" ? formatTimeTick : formatDateTick}
               tick={{ fill: "#6b7280", fontSize: 10 }}
               tickLine={false}
               axisLine={false}
@@ -135,11 +235,27 @@ export default function GasChart({ history, chainColor, chainType }: GasChartPro
               axisLine={false}
               width={48}
             />
+            {showPrice && (
+              <YAxis
+                yAxisId="price"
+                orientation="right"
+                domain={["auto", "auto"]}
+                tickFormatter={(v: number) => `$${formatValue(v)}`}
+                tick={{ fill: "#6b7280", fontSize: 10 }}
+                tickLine={false}
+                axisLine={false}
+                width={52}
+              />
+            )}
             <Tooltip content={<TooltipContent />} />
+            <Area type="monotone" dataKey="range" stroke="none" fill={chainColor} fillOpacity={0.08} name="Range" dot={false} activeDot={false} />
             <Area type="monotone" dataKey="high" stroke="#f97316" fill="url(#colorHigh)" strokeWidth={1.5} name="High" dot={false} />
             <Area type="monotone" dataKey="average" stroke={chainColor} fill="url(#colorAvg)" strokeWidth={2} name="Average" dot={false} />
             <Area type="monotone" dataKey="low" stroke="#10b981" fill="url(#colorLow)" strokeWidth={1.5} name="Low" dot={false} />
-          </AreaChart>
+            {showPrice && (
+              <Line yAxisId="price" type="monotone" dataKey="price" stroke="#e5e7eb" strokeDasharray="4 3" strokeWidth={1.5} name={`${tokenSymbol} USD`} dot={false} connectNulls />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
     </div>
@@ -1,14 +1,29 @@
 "use client";
 
-import { GasData } from "@/lib/types";
-import { SOLANA_BASE_FEE_LAMPORTS } from "@/lib/chains";
+import { GasData, SolanaAccountFees, StarknetFees, TronFees } from "@/lib/types";
+import {
+  BITCOIN_COMMON_TRANSACTIONS,
+  CatalogTransaction,
+  feeUnit,
+  SOLANA_ACCOUNT_PRESETS,
+  SOLANA_BASE_FEE_LAMPORTS,
+  TRON_COMMON_TRANSACTIONS,
+  tronCost,
+} from "@/lib/chains";
+import { CostFormatter } from "@/lib/currency";
 
 interface GasTiersProps {
   data: GasData | null;
   tokenPrice: number;
   tokenSymbol: string;
+  formatter: CostFormatter;
   chainColor: string;
   chainType?: string;
+  // The chain's catalog transfer, priced at each tier
+  transfer: CatalogTransaction;
+  // Solana: which SOLANA_ACCOUNT_PRESETS entry priority fees are scoped to
+  accountPreset?: string;
+  onAccountPresetChange?: (preset: string) => void;
 }
 
 function formatGwei(gwei: number): string {
@@ -21,26 +36,30 @@ function formatGwei(gwei: number): string {
   return gwei.toFixed(0);
 }
 
-function formatUsdSmart(usd: number): string {
-  if (usd === 0) return "$0";
-  if (usd < 0.000001) return `$${usd.toExponential(2)}`;
-  if (usd < 0.0001) return `$${usd.toFixed(8)}`;
-  if (usd < 0.01) return `$${usd.toFixed(6)}`;
-  if (usd < 1) return `$${usd.toFixed(4)}`;
-  return `$${usd.toFixed(2)}`;
-}
+const BITCOIN_TRANSFER_VBYTES = BITCOIN_COMMON_TRANSACTIONS[0].vbytes;
 
-function estimateUsd(feeValue: number, tokenPrice: number, chainType?: string): string {
+function estimateUsd(
+  feeValue: number,
+  tokenPrice: number,
+  chainType: string | undefined,
+  transfer: CatalogTransaction,
+  dataFeePerByte = 0,
+  gasUnitScale = 1
+): number {
   let usd: number;
   if (chainType === "solana") {
     // SOL transfer: 1 sig base fee + priority fee * ~450 CU
     const baseLamports = SOLANA_BASE_FEE_LAMPORTS;
     const priorityLamports = (feeValue * 450) / 1e6;
     usd = ((baseLamports + priorityLamports) / 1e9) * tokenPrice;
+  } else if (chainType === "bitcoin") {
+    // P2WPKH send at the tier's sat/vB
+    usd = ((feeValue * BITCOIN_TRANSFER_VBYTES) / 1e8) * tokenPrice;
   } else {
-    usd = ((feeValue * 21000) / 1e9) * tokenPrice;
+    const gasLimit = transfer.gasLimit * (transfer.chainUnits ? 1 : gasUnitScale);
+    usd = ((feeValue * gasLimit + dataFeePerByte * transfer.txBytes) / 1e9) * tokenPrice;
   }
-  return formatUsdSmart(usd);
+  return usd;
 }
 
 const evmTierStyles = {
@@ -55,31 +74,24 @@ const solanaTierStyles = {
   high: { label: "High", speed: "~400ms", border: "#f9731633", bg: "#f973160f", accent: "#fb923c" },
 };
 
-export default function GasTiers({ data, tokenPrice, tokenSymbol, chainType }: GasTiersProps) {
-  if (!data) {
-    return (
-      <div className="grid grid-cols-3 gap-3">
-        {(["low", "average", "high"] as const).map((k) => (
-          <div key={k} className="bg-white/[0.03] rounded-xl p-4 animate-pulse">
-            <div className="h-3 bg-white/10 rounded w-12 mb-3" />
-            <div className="h-7 bg-white/10 rounded w-20 mb-1.5" />
-            <div className="h-3 bg-white/10 rounded w-16" />
-          </div>
-        ))}
-      </div>
-    );
-  }
+const bitcoinTierStyles = {
+  low: { label: "Low", speed: "~1 hour", border: "#10b98133", bg: "#10b9810f", accent: "#34d399" },
+  average: { label: "Average", speed: "~30 min", border: "#3b82f633", bg: "#3b82f60f", accent: "#60a5fa" },
+  high: { label: "High", speed: "~10 min", border: "#f9731633", bg: "#f973160f", accent: "#fb923c" },
+};
 
-  const isSolana = chainType === "solana";
-  const tierStyles = isSolana ? solanaTierStyles : evmTierStyles;
-  const unitLabel = isSolana ? "μL/CU" : "Gwei";
-  const values = { low: data.low, average: data.average, high: data.high };
+// Starknet has one price per resource instead of speed tiers
+function StarknetResourceTiers({ fees }: { fees: StarknetFees }) {
+  const resources = [
+    { key: "low", label: "L1 Gas", price: fees.l1GasPrice },
+    { key: "average", label: "L1 Data Gas", price: fees.l1DataGasPrice },
+    { key: "high", label: "L2 Gas", price: fees.l2GasPrice },
+  ] as const;
 
   return (
     <div className="grid grid-cols-3 gap-3">
-      {(["low", "average", "high"] as const).map((key) => {
-        const s = tierStyles[key];
-        const value = values[key];
+      {resources.map(({ key, label, price }) => {
+        const s = evmTierStyles[key];
         return (
           <div
             key={key}
@@ -91,29 +103,248 @@ export default function GasTiers({ data, tokenPrice, tokenSymbol, chainType }: G
                 className="text-[11px] font-semibold uppercase tracking-wider"
                 style={{ color: s.accent }}
               >
-                {s.label}
+                {label}
               </span>
-              <span className="text-[10px] text-gray-600">{s.speed}</span>
+              {key === "average" && fees.l1DaMode && (
+                <span className="text-[10px] text-gray-600">{fees.l1DaMode.toLowerCase()}</span>
+              )}
             </div>
             <div className="text-2xl font-bold text-white leading-none mb-1">
-              {formatGwei(value)}
-              <span className="text-[11px] font-normal text-gray-500 ml-1.5">{unitLabel}</span>
+              {price ? formatGwei(price.fri) : "—"}
+              <span className="text-[11px] font-normal text-gray-500 ml-1.5">gFRI</span>
             </div>
             <div className="text-xs text-gray-500">
-              {estimateUsd(value, tokenPrice, chainType)} / transfer
+              {price ? `${formatGwei(price.wei)} Gwei in ETH` : "Billed as L1 gas"}
             </div>
-            {key === "average" && (
-              <div className="mt-2.5 pt-2.5 border-t border-white/5 text-[10px] text-gray-600">
-                {isSolana
-                  ? `Base: ${SOLANA_BASE_FEE_LAMPORTS.toLocaleString()} lamports/sig`
-                  : data.baseFee !== null
-                  ? `Base: ${formatGwei(data.baseFee)} Gwei (${tokenSymbol})`
-                  : null}
-              </div>
-            )}
           </div>
         );
       })}
     </div>
   );
 }
+
+const TRON_USDT_TRANSFER = TRON_COMMON_TRANSACTIONS[1];
+
+// Tron resources have fixed prices; staking trades TRX lockup for free resources
+function TronResourceTiers({
+  fees,
+  tokenPrice,
+  formatter,
+}: {
+  fees: TronFees;
+  tokenPrice: number;
+  formatter: CostFormatter;
+}) {
+  const usdt = tronCost(TRON_USDT_TRANSFER, fees);
+  const resources = [
+    {
+      key: "low",
+      label: "Energy",
+      value: fees.energyPrice.toLocaleString(),
+      unit: "sun",
+      detail: `${formatter.format(usdt.burnTrx * tokenPrice)} / USDT transfer`,
+    },
+    {
+      key: "average",
+      label: "Bandwidth",
+      value: fees.bandwidthPrice.toLocaleString(),
+      unit: "sun/byte",
+      detail: `${fees.freeBandwidth.toLocaleString()} bytes free daily`,
+    },
+    {
+      key: "high",
+      label: "Staked",
+      value: usdt.stakeTrx !== null ? Math.ceil(usdt.stakeTrx).toLocaleString() : "—",
+      unit: "TRX",
+      detail: "staked per daily USDT transfer",
+    },
+  ] as const;
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {resources.map(({ key, label, value, unit, detail }) => {
+        const s = evmTierStyles[key];
+        return (
+          <div
+            key={key}
+            className="rounded-xl p-4"
+            style={{ border: `1px solid ${s.border}`, backgroundColor: s.bg }}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span
+                className="text-[11px] font-semibold uppercase tracking-wider"
+                style={{ color: s.accent }}
+              >
+                {label}
+              </span>
+            </div>
+            <div className="text-2xl font-bold text-white leading-none mb-1">
+              {value}
+              <span className="text-[11px] font-normal text-gray-500 ml-1.5">{unit}</span>
+            </div>
+            <div className="text-xs text-gray-500">{detail}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function AccountPresetPicker({
+  selected,
+  onSelect,
+}: {
+  selected: string;
+  onSelect: (preset: string) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 mb-3">
+      <span className="text-[10px] text-gray-600 uppercase tracking-wider">Priority fees for</span>
+      <div className="flex gap-0.5 bg-white/[0.04] rounded-lg p-0.5">
+        {SOLANA_ACCOUNT_PRESETS.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => onSelect(p.id)}
+            className={`px-2 py-1 rounded-md text-[10px] font-medium transition-colors cursor-pointer ${
+              selected === p.id ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
+            }`}
+          >
+            {p.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Shown when fees were scoped to several accounts: each one's own tiers
+function AccountFeeRows({ fees }: { fees: SolanaAccountFees[] }) {
+  return (
+    <div className="mt-3 space-y-1">
+      {fees.map((f) => (
+        <div key={f.account} className="flex items-center justify-between text-[10px] font-mono text-gray-500">
+          <span className="truncate mr-3">{f.account}</span>
+          <span className="shrink-0">
+            <span style={{ color: solanaTierStyles.low.accent }}>{formatGwei(f.low)}</span>
+            {" / "}
+            <span style={{ color: solanaTierStyles.average.accent }}>{formatGwei(f.average)}</span>
+            {" / "}
+            <span style={{ color: solanaTierStyles.high.accent }}>{formatGwei(f.high)}</span>
+            <span className="text-gray-600 ml-1.5">μL/CU</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function GasTiers({
+  data,
+  tokenPrice,
+  tokenSymbol,
+  formatter,
+  chainType,
+  transfer,
+  accountPreset,
+  onAccountPresetChange,
+}: GasTiersProps) {
+  const picker =
+    chainType === "solana" && accountPreset && onAccountPresetChange ? (
+      <AccountPresetPicker selected={accountPreset} onSelect={onAccountPresetChange} />
+    ) : null;
+
+  if (!data) {
+    return (
+      <div>
+        {picker}
+        <div className="grid grid-cols-3 gap-3">
+          {(["low", "average", "high"] as const).map((k) => (
+            <div key={k} className="bg-white/[0.03] rounded-xl p-4 animate-pulse">
+              <div className="h-3 bg-white/10 rounded w-12 mb-3" />
+              <div className="h-7 bg-white/10 rounded w-20 mb-1.5" />
+              <div className="h-3 bg-white/10 rounded w-16" />
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const isSolana = chainType === "solana";
+  if (data.starknetFees) {
+    return <StarknetResourceTiers fees={data.starknetFees} />;
+  }
+  if (data.tronFees) {
+    return <TronResourceTiers fees={data.tronFees} tokenPrice={tokenPrice} formatter={formatter} />;
+  }
+
+  const bitcoinFees = data.bitcoinFees;
+  const tierStyles = isSolana ? solanaTierStyles : bitcoinFees ? bitcoinTierStyles : evmTierStyles;
+  const unitLabel = feeUnit(chainType);
+  const dayRate = bitcoinFees?.targets.find((t) => t.blocks === 144)?.feeRate;
+  const values = { low: data.low, average: data.average, high: data.high };
+
+  return (
+    <div>
+      {picker}
+      <div className="grid grid-cols-3 gap-3">
+        {(["low", "average", "high"] as const).map((key) => {
+          const s = tierStyles[key];
+          const value = values[key];
+          return (
+            <div
+              key={key}
+              className="rounded-xl p-4"
+              style={{ border: `1px solid ${s.border}`, backgroundColor: s.bg }}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span
+                  className="text-[11px] font-semibold uppercase tracking-wider"
+                  style={{ color: s.accent }}
+                >
+                  {s.label}
+                </span>
+                <span className="text-[10px] text-gray-600">{s.speed}</span>
+              </div>
+              <div className="text-2xl font-bold text-white leading-none mb-1">
+                {formatGwei(value)}
+                <span className="text-[11px] font-normal text-gray-500 ml-1.5">{unitLabel}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatter.format(
+                  estimateUsd(
+                    value,
+                    tokenPrice,
+                    chainType,
+                    transfer,
+                    data.l1DataFee?.feePerByte,
+                    data.zkSyncFee?.gasUnitScale
+                  )
+                )}{" "}
+                / transfer
+              </div>
+              {key === "average" && (
+                <div className="mt-2.5 pt-2.5 border-t border-white/5 text-[10px] text-gray-600">
+                  {isSolana
+                    ? `Base: ${SOLANA_BASE_FEE_LAMPORTS.toLocaleString()} lamports/sig`
+                    : bitcoinFees
+                    ? `Mempool min: ${formatGwei(bitcoinFees.mempoolMinFee)} sat/vB`
+                    : data.baseFee !== null
+                    ? `Base: ${formatGwei(data.baseFee)} Gwei (${tokenSymbol})`
+                    : null}
+                  {dayRate !== undefined && <div>~1 day: {formatGwei(dayRate)} sat/vB</div>}
+                  {data.l1DataFee?.l1BaseFee != null && (
+                    <div>L1 base: {formatGwei(data.l1DataFee.l1BaseFee)} Gwei</div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {data.solanaAccountFees && data.solanaAccountFees.length > 1 && (
+        <AccountFeeRows fees={data.solanaAccountFees} />
+      )}
+    </div>
+  );
+}
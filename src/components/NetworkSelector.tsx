@@ -0,0 +1,31 @@
+"use client";
+
+import { Network, NETWORKS } from "@/lib/chains";
+
+const NETWORK_LABELS: Record<Network, string> = {
+  mainnet: "Mainnet",
+  testnet: "Testnet",
+};
+
+interface NetworkSelectorProps {
+  selected: Network;
+  onSelect: (network: Network) => void;
+}
+
+export default function NetworkSelector({ selected, onSelect }: NetworkSelectorProps) {
+  return (
+    <div className="flex gap-0.5 bg-white/[0.04] rounded-lg p-0.5 shrink-0">
+      {NETWORKS.map((n) => (
+        <button
+          key={n}
+          onClick={() => onSelect(n)}
+          className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors cursor-pointer ${
+            selected === n ? "bg-white/10 text-white" : "text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          {NETWORK_LABELS[n]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -22,6 +22,14 @@ function formatFee(v: number): string {
   return v.toLocaleString();
 }
 
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
 export default function NetworkStats({ data, chain }: NetworkStatsProps) {
   if (!data) {
     return (
@@ -37,8 +45,32 @@ export default function NetworkStats({ data, chain }: NetworkStatsProps) {
   }
 
   const isSolana = chain.chainType === "solana";
+  const bitcoinFees = data.bitcoinFees;
+  const starknetFees = data.starknetFees;
+  const tronFees = data.tronFees;
 
-  const stats = isSolana
+  const stats = tronFees
+    ? [
+        { label: "Block", value: `#${data.blockNumber.toLocaleString()}`, link: `${chain.explorerUrl}/block/${data.blockNumber}` },
+        { label: "Energy", value: `${tronFees.energyPrice} sun` },
+        { label: "Bandwidth", value: `${tronFees.bandwidthPrice} sun/byte` },
+        { label: "Energy/TRX", value: tronFees.energyPerTrx !== null ? `${tronFees.energyPerTrx.toFixed(1)}/day` : "—" },
+      ]
+    : starknetFees
+    ? [
+        { label: "Block", value: `#${data.blockNumber.toLocaleString()}`, link: `${chain.explorerUrl}/block/${data.blockNumber}` },
+        { label: "Txns", value: data.networkStats.txCount.toString() },
+        { label: "L1 Gas", value: `${formatFee(starknetFees.l1GasPrice.wei)} Gwei` },
+        { label: "DA Mode", value: starknetFees.l1DaMode ?? "—" },
+      ]
+    : bitcoinFees
+    ? [
+        { label: "Block", value: `#${data.blockNumber.toLocaleString()}`, link: `${chain.explorerUrl}/block/${data.blockNumber}` },
+        { label: "Mempool Txns", value: formatNumber(bitcoinFees.mempoolTxCount) },
+        { label: "Mempool Size", value: `${(bitcoinFees.mempoolVsize / 1e6).toFixed(2)} MvB` },
+        { label: "Min Fee", value: `${formatFee(bitcoinFees.mempoolMinFee)} sat/vB` },
+      ]
+    : isSolana
     ? [
         { label: "Slot", value: `#${data.blockNumber.toLocaleString()}`, link: `${chain.explorerUrl}/block/${data.blockNumber}` },
         { label: "TPS", value: data.networkStats.txCount.toLocaleString() },
@@ -52,20 +84,37 @@ export default function NetworkStats({ data, chain }: NetworkStatsProps) {
         { label: "Utilization", value: `${data.networkStats.utilization.toFixed(1)}%` },
       ];
 
+  const endpoints = data.rpcEndpoints ?? [];
+  const onFallback = endpoints.some((url) => url !== chain.rpcUrl);
+
   return (
-    <div className="grid grid-cols-4 gap-3">
-      {stats.map((s) => (
-        <div key={s.label} className="bg-white/[0.03] rounded-xl border border-white/[0.04] p-3.5">
-          <div className="text-[10px] text-gray-600 mb-1">{s.label}</div>
-          {s.link ? (
-            <a href={s.link} target="_blank" rel="noopener noreferrer" className="text-sm font-semibold text-white hover:underline">
-              {s.value}
-            </a>
-          ) : (
-            <div className="text-sm font-semibold text-white">{s.value}</div>
-          )}
+    <div>
+      <div className="grid grid-cols-4 gap-3">
+        {stats.map((s) => (
+          <div key={s.label} className="bg-white/[0.03] rounded-xl border border-white/[0.04] p-3.5">
+            <div className="text-[10px] text-gray-600 mb-1">{s.label}</div>
+            {s.link ? (
+              <a href={s.link} target="_blank" rel="noopener noreferrer" className="text-sm font-semibold text-white hover:underline">
+                {s.value}
+              </a>
+            ) : (
+              <div className="text-sm font-semibold text-white">{s.value}</div>
+            )}
+          </div>
+        ))}
+      </div>
+      {onFallback && (
+        <div className="mt-2 text-[10px] text-amber-500/80">
+          Primary RPC unavailable, served by {endpoints.map(hostOf).join(", ")}
+        </div>
+      )}
+      {data.consensus?.lowConfidence && (
+        <div className="mt-2 text-[10px] text-amber-500/80">
+          Low-confidence reading: {data.consensus.agreeing} of {data.consensus.responded} RPCs agree
+          {data.consensus.stale.length > 0 && ` (${data.consensus.stale.map(hostOf).join(", ")} lagging)`}
+          , {(data.consensus.spread * 100).toFixed(1)}% fee spread
         </div>
-      ))}
+      )}
     </div>
   );
 }
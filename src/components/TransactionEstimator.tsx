@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { ChainConfig, Network } from "@/lib/chains";
+import { costFormatter, CurrencyRates, DisplayCurrency } from "@/lib/currency";
+import { ChainEstimateResult } from "@/lib/types";
+
+interface TransactionEstimatorProps {
+  chains: ChainConfig[];
+  network: Network;
+  currency: DisplayCurrency;
+  rates: CurrencyRates;
+}
+
+// "1.5" native tokens -> hex wei; null when the amount isn't a plain decimal
+function toWeiHex(amount: string): string | null {
+  const match = amount.trim().match(/^(\d*)(?:\.(\d{0,18}))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const wei = BigInt((match[1] || "0") + (match[2] ?? "").padEnd(18, "0"));
+  return `0x${wei.toString(16)}`;
+}
+
+function formatGas(gas: number): string {
+  return gas.toLocaleString();
+}
+
+const inputClass =
+  "w-full bg-white/[0.04] border border-white/[0.06] rounded-lg px-3 py-2 text-xs text-gray-200 font-mono placeholder:text-gray-600 focus:outline-none focus:border-white/20";
+
+export default function TransactionEstimator({ chains, network, currency, rates }: TransactionEstimatorProps) {
+  const evmChains = chains.filter((c) => (c.chainType ?? "evm") === "evm");
+  const [to, setTo] = useState("");
+  const [from, setFrom] = useState("");
+  const [value, setValue] = useState("");
+  const [data, setData] = useState("");
+  const [selected, setSelected] = useState<string[]>(() => evmChains.map((c) => c.id));
+  const [results, setResults] = useState<ChainEstimateResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleChain = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+
+  const estimate = async () => {
+    const weiHex = value.trim() ? toWeiHex(value) : undefined;
+    if (weiHex === null) {
+      setError("Value must be a decimal amount");
+      return;
+    }
+    const calldata = data.trim().replace(/\s+/g, "");
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          to: to.trim() || undefined,
+          from: from.trim() || undefined,
+          data: calldata ? (calldata.startsWith("0x") ? calldata : `0x${calldata}`) : undefined,
+          value: weiHex,
+          chains: evmChains.filter((c) => selected.includes(c.id)).map((c) => c.id),
+          network,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Estimate failed");
+      setResults(body.estimates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Estimate failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasDataFee = results?.some((r) => "l1DataFee" in r && r.l1DataFee > 0) ?? false;
+
+  return (
+    <div className="bg-white/[0.03] rounded-2xl border border-white/[0.06] p-5">
+      <h3 className="text-sm font-semibold text-white mb-0.5">Custom Transaction</h3>
+      <p className="text-[11px] text-gray-600 mb-4">
+        eth_estimateGas on each chain at current prices &middot; rollups incl. L1 data fee
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-2">
+        <input className={inputClass} placeholder="To (0x…)" value={to} onChange={(e) => setTo(e.target.value)} />
+        <input className={inputClass} placeholder="From (optional)" value={from} onChange={(e) => setFrom(e.target.value)} />
+        <input className={inputClass} placeholder="Value (native token)" value={value} onChange={(e) => setValue(e.target.value)} />
+      </div>
+      <textarea
+        className={`${inputClass} h-20 resize-y mb-3`}
+        placeholder="Calldata (0x…)"
+        value={data}
+        onChange={(e) => setData(e.target.value)}
+      />
+
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {evmChains.map((chain) => {
+          const active = selected.includes(chain.id);
+          return (
+            <button
+              key={chain.id}
+              onClick={() => toggleChain(chain.id)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors cursor-pointer ${
+                active ? "bg-white/10 text-white" : "bg-white/[0.02] text-gray-600 hover:text-gray-400"
+              }`}
+            >
+              <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: chain.color }} />
+              {chain.name}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3 mb-4">
+        <button
+          onClick={estimate}
+          disabled={loading || selected.length === 0}
+          className="px-4 py-2 rounded-lg text-xs font-medium bg-white text-gray-900 hover:bg-gray-200 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {loading ? "Estimating…" : "Estimate"}
+        </button>
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+
+      {results && (
+        <div className="overflow-x-auto -mx-1">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] text-gray-600 uppercase tracking-wider">
+                <th className="text-left pb-2 pl-1 font-medium">Chain</th>
+                <th className="text-right pb-2 font-medium">Gas</th>
+                {hasDataFee && <th className="text-right pb-2 font-medium">L1 Data</th>}
+                <th className="text-right pb-2 font-medium" style={{ color: "#34d399" }}>Low</th>
+                <th className="text-right pb-2 font-medium" style={{ color: "#60a5fa" }}>Avg</th>
+                <th className="text-right pb-2 pr-1 font-medium" style={{ color: "#fb923c" }}>High</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, i) => {
+                const rowClass = i % 2 === 0 ? "bg-white/[0.015]" : "";
+                if ("error" in r) {
+                  return (
+                    <tr key={r.chain} className={rowClass}>
+                      <td className="py-2 pl-1 text-gray-400">{r.name}</td>
+                      <td colSpan={hasDataFee ? 5 : 4} className="py-2 pr-1 text-right text-red-400/80 truncate max-w-0">
+                        {r.error}
+                      </td>
+                    </tr>
+                  );
+                }
+                const formatter = costFormatter(currency, rates, {
+                  price: r.tokenPrice,
+                  symbol: r.nativeTokenSymbol,
+                });
+                return (
+                  <tr key={r.chain} className={rowClass}>
+                    <td className="py-2 pl-1 text-gray-400">{r.name}</td>
+                    <td className="py-2 text-gray-600 text-right font-mono">{formatGas(r.gasUsed)}</td>
+                    {hasDataFee && (
+                      <td className="py-2 text-gray-600 text-right font-mono">
+                        {r.l1DataFee > 0 ? formatter.format(r.l1DataFee * r.tokenPrice) : "—"}
+                      </td>
+                    )}
+                    <td className="py-2 text-right font-mono" style={{ color: "#34d399" }}>{formatter.format(r.low.usd)}</td>
+                    <td className="py-2 text-right font-mono" style={{ color: "#60a5fa" }}>{formatter.format(r.average.usd)}</td>
+                    <td className="py-2 pr-1 text-right font-mono" style={{ color: "#fb923c" }}>{formatter.format(r.high.usd)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
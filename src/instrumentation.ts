@@ -0,0 +1,17 @@
+// Validates the chain registry once per server start, before any request is served
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { ChainRegistryError, getChains, registryPath } = await import("@/lib/chain-registry");
+  // Schema errors throw here and abort startup
+  const chains = [...getChains("mainnet"), ...getChains("testnet")];
+  // So does a bad PRICE_SOURCES or PRICE_HTTP_HEADERS
+  const { priceSources } = await import("@/lib/price-oracle");
+  priceSources();
+  // Built-in chains are known good; CHAIN_REGISTRY_VERIFY=0 skips the network checks
+  if (!registryPath() || process.env.CHAIN_REGISTRY_VERIFY === "0") return;
+
+  const { checkChains } = await import("@/lib/chain-checks");
+  const { errors } = await checkChains(chains);
+  if (errors.length > 0) throw new ChainRegistryError(errors);
+}
@@ -0,0 +1,56 @@
+import { ChainConfig } from "@/lib/chains";
+import { FALLBACK_PRICES, getTokenPrices } from "@/lib/price-oracle";
+import { chainRpcUrls, hexResult, rpcCall } from "@/lib/rpc";
+
+const CHECK_TIMEOUT_MS = 5000;
+
+export interface ChainCheckResult {
+  errors: string[];
+}
+
+async function checkChainIds(chain: ChainConfig, result: ChainCheckResult) {
+  if ((chain.chainType ?? "evm") !== "evm") return;
+  // chainId is optional; without it there is nothing to verify
+  if (chain.chainId === undefined) return;
+  await Promise.all(
+    chainRpcUrls(chain).map(async (url) => {
+      try {
+        const reported = parseInt(
+          hexResult(
+            await rpcCall(url, "eth_chainId", [], { timeoutMs: CHECK_TIMEOUT_MS, retries: 0 })
+          ),
+          16
+        );
+        if (reported !== chain.chainId) {
+          result.errors.push(`${chain.id}: ${url} reports chainId ${reported}, expected ${chain.chainId}`);
+        }
+      } catch {
+        // Unreachable endpoints may be a passing outage; /status reports them
+      }
+    })
+  );
+}
+
+// A token no source can quote is only usable if the fallback table prices it
+async function checkNativeTokens(chains: ChainConfig[], result: ChainCheckResult) {
+  const tokenIds = [...new Set(chains.map((c) => c.nativeToken))];
+  const prices = await getTokenPrices(tokenIds);
+  for (const chain of chains) {
+    const price = prices[chain.nativeToken];
+    // Fallback-priced tokens are flagged next to every cost they feed
+    if (!price.fallback || chain.nativeToken in FALLBACK_PRICES) continue;
+    result.errors.push(
+      `${chain.id}: nativeToken "${chain.nativeToken}" is not priced by any price source`
+    );
+  }
+}
+
+// Startup checks that need the network: endpoint chain ids and token pricing
+export async function checkChains(chains: ChainConfig[]): Promise<ChainCheckResult> {
+  const result: ChainCheckResult = { errors: [] };
+  await Promise.all([
+    ...chains.map((chain) => checkChainIds(chain, result)),
+    checkNativeTokens(chains, result),
+  ]);
+  return result;
+}
@@ -0,0 +1,325 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import {
+  ChainConfig,
+  ChainVariant,
+  COMMON_TRANSACTIONS,
+  DEFAULT_CHAINS,
+  EvmTransaction,
+  Network,
+  NETWORKS,
+  TransactionCatalog,
+} from "@/lib/chains";
+
+export class ChainRegistryError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid chain registry:\n  ${issues.join("\n  ")}`);
+    this.name = "ChainRegistryError";
+  }
+}
+
+// Records rather than arrays so a new ChainConfig variant fails to compile here
+const CHAIN_TYPES: Record<NonNullable<ChainConfig["chainType"]>, true> = {
+  evm: true,
+  solana: true,
+  bitcoin: true,
+  starknet: true,
+  tron: true,
+};
+
+const ROLLUP_FEE_MODELS: Record<NonNullable<ChainConfig["rollupFeeModel"]>, true> = {
+  "op-stack": true,
+  arbitrum: true,
+  zksync: true,
+  scroll: true,
+  linea: true,
+};
+
+interface FieldSchema {
+  type: "string" | "number" | "boolean" | "string[]" | "object" | "object[]";
+  required?: boolean;
+  oneOf?: string[];
+  check?: (value: never) => string | null;
+  // Nested fields of an "object", or of each "object[]" item
+  fields?: Record<string, FieldSchema>;
+}
+
+function httpUrl(value: string): string | null {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:" ? null : "must be an http(s) URL";
+  } catch {
+    return "must be an http(s) URL";
+  }
+}
+
+function positiveInteger(value: number): string | null {
+  return Number.isInteger(value) && value > 0 ? null : "must be a positive integer";
+}
+
+const VARIANT_SCHEMA: Record<keyof ChainVariant, FieldSchema> = {
+  name: { type: "string", required: true },
+  chainId: { type: "number", check: positiveInteger },
+  rpcUrl: { type: "string", required: true, check: httpUrl },
+  rpcFallbacks: {
+    type: "string[]",
+    check: (v: string[]) => v.map(httpUrl).find((e) => e !== null) ?? null,
+  },
+  explorerUrl: { type: "string", required: true, check: httpUrl },
+};
+
+const COMMON_ACTION_IDS = COMMON_TRANSACTIONS.map((tx) => tx.id);
+
+function commonActionIds(ids: string[]): string | null {
+  const unknown = ids.find((id) => !COMMON_ACTION_IDS.includes(id));
+  return unknown === undefined
+    ? null
+    : `refers to unknown action "${unknown}" (known: ${COMMON_ACTION_IDS.join(", ")})`;
+}
+
+const ACTION_SCHEMA: Record<keyof EvmTransaction, FieldSchema> = {
+  id: {
+    type: "string",
+    required: true,
+    check: (v: string) =>
+      COMMON_ACTION_IDS.includes(v) ? "clashes with a shared action; use gasLimits instead" : null,
+  },
+  name: { type: "string", required: true },
+  gasLimit: { type: "number", required: true, check: positiveInteger },
+  txBytes: { type: "number", required: true, check: positiveInteger },
+  icon: { type: "string", required: true },
+};
+
+const CATALOG_SCHEMA: Record<keyof TransactionCatalog, FieldSchema> = {
+  gasLimits: {
+    type: "object",
+    check: (v: Record<string, unknown>) =>
+      commonActionIds(Object.keys(v)) ??
+      (Object.values(v).every((n) => typeof n === "number" && positiveInteger(n) === null)
+        ? null
+        : "values must be positive integers"),
+  },
+  actions: { type: "object[]", fields: ACTION_SCHEMA },
+  omit: { type: "string[]", check: commonActionIds },
+  dex: { type: "string" },
+};
+
+const CHAIN_SCHEMA: Record<keyof ChainConfig, FieldSchema> = {
+  // Ids end up in URLs and history rows
+  id: {
+    type: "string",
+    required: true,
+    check: (v: string) => (/^[a-z0-9-]+$/.test(v) ? null : "must match [a-z0-9-]+"),
+  },
+  name: { type: "string", required: true },
+  chainId: { type: "number", check: positiveInteger },
+  rpcUrl: { type: "string", required: true, check: httpUrl },
+  rpcFallbacks: {
+    type: "string[]",
+    check: (v: string[]) => v.map(httpUrl).find((e) => e !== null) ?? null,
+  },
+  nativeToken: { type: "string", required: true },
+  nativeTokenSymbol: { type: "string", required: true },
+  explorerUrl: { type: "string", required: true, check: httpUrl },
+  color: {
+    type: "string",
+    required: true,
+    check: (v: string) => (/^#[0-9a-fA-F]{6}$/.test(v) ? null : "must be a #RRGGBB hex color"),
+  },
+  icon: { type: "string", required: true },
+  isEIP1559: { type: "boolean" },
+  chainType: { type: "string", oneOf: Object.keys(CHAIN_TYPES) },
+  rollupFeeModel: { type: "string", oneOf: Object.keys(ROLLUP_FEE_MODELS) },
+  computeUnitsPerSwap: { type: "number", check: positiveInteger },
+  signaturesPerSwap: { type: "number", check: positiveInteger },
+  vbytesPerSwap: { type: "number", check: positiveInteger },
+  network: { type: "string", oneOf: NETWORKS },
+  testnet: { type: "object", fields: VARIANT_SCHEMA },
+  catalog: { type: "object", fields: CATALOG_SCHEMA },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeMatches(value: unknown, type: FieldSchema["type"]): boolean {
+  if (type === "string[]") {
+    return Array.isArray(value) && value.every((v) => typeof v === "string");
+  }
+  if (type === "object") return isObject(value);
+  if (type === "object[]") return Array.isArray(value) && value.every(isObject);
+  return typeof value === type;
+}
+
+function validateFields(
+  entry: Record<string, unknown>,
+  schema: Record<string, FieldSchema>,
+  label: string,
+  issues: string[]
+) {
+  for (const key of Object.keys(entry)) {
+    if (!(key in schema)) issues.push(`${label}: unknown field "${key}"`);
+  }
+  for (const [key, field] of Object.entries(schema)) {
+    const value = entry[key];
+    if (value === undefined) {
+      if (field.required) issues.push(`${label}: missing "${key}"`);
+      continue;
+    }
+    if (!typeMatches(value, field.type)) {
+      issues.push(`${label}: "${key}" must be a ${field.type}`);
+      continue;
+    }
+    if (field.oneOf && !field.oneOf.includes(value as string)) {
+      issues.push(`${label}: "${key}" must be one of ${field.oneOf.join(", ")}`);
+      continue;
+    }
+    if (field.fields && field.type === "object[]") {
+      (value as Record<string, unknown>[]).forEach((item, i) =>
+        validateFields(item, field.fields!, `${label}.${key}[${i}]`, issues)
+      );
+    } else if (field.fields) {
+      validateFields(value as Record<string, unknown>, field.fields, `${label}.${key}`, issues);
+    }
+    const problem = field.check?.(value as never);
+    if (problem) issues.push(`${label}: "${key}" ${problem}`);
+  }
+}
+
+function validateChain(raw: unknown, label: string, issues: string[]): ChainConfig | null {
+  if (!isObject(raw)) {
+    issues.push(`${label}: must be an object`);
+    return null;
+  }
+  const entry = raw;
+  const before = issues.length;
+  validateFields(entry, CHAIN_SCHEMA, label, issues);
+
+  if (entry.network === "testnet" && entry.testnet !== undefined) {
+    issues.push(`${label}: a testnet chain can't have a "testnet" variant`);
+  }
+  const chainType = entry.chainType ?? "evm";
+  if (chainType !== "evm" && entry.rollupFeeModel !== undefined) {
+    issues.push(`${label}: "rollupFeeModel" only applies to EVM chains`);
+  }
+  if (chainType !== "evm" && entry.catalog !== undefined) {
+    issues.push(`${label}: "catalog" only applies to EVM chains`);
+  }
+  return issues.length === before ? (entry as unknown as ChainConfig) : null;
+}
+
+// Mainnet chains as configured; testnet chains are the testnet-only entries
+// plus every mainnet chain's testnet variant under the same id
+export function chainsForNetwork(chains: ChainConfig[], network: Network): ChainConfig[] {
+  const own = chains.filter((c) => (c.network ?? "mainnet") === network);
+  if (network === "mainnet") return own;
+  const variants = chains
+    .filter((c) => (c.network ?? "mainnet") === "mainnet" && c.testnet)
+    .map(({ testnet, ...chain }) => ({
+      ...chain,
+      ...testnet!,
+      chainId: testnet!.chainId,
+      rpcFallbacks: testnet!.rpcFallbacks,
+      network,
+    }));
+  return [...variants, ...own];
+}
+
+function checkDuplicates(chains: ChainConfig[], issues: string[]) {
+  const seenIds = new Map<string, number>();
+  const seenColors = new Map<string, string>();
+  for (const chain of chains) {
+    seenIds.set(chain.id, (seenIds.get(chain.id) ?? 0) + 1);
+    const color = chain.color.toLowerCase();
+    const other = seenColors.get(color);
+    // Chart series and selector chips are told apart by color alone
+    if (other !== undefined && other !== chain.id) {
+      issues.push(`${chain.id}: color ${chain.color} is already used by ${other}`);
+    } else {
+      seenColors.set(color, chain.id);
+    }
+  }
+  for (const [id, count] of seenIds) {
+    if (count > 1) issues.push(`${id}: duplicate chain id`);
+  }
+}
+
+interface RegistryFile {
+  // Keep the built-in chains; entries with a built-in id replace it
+  includeDefaults?: boolean;
+  chains: unknown[];
+}
+
+function readRegistryFile(file: string): RegistryFile {
+  const text = readFileSync(file, "utf8");
+  const ext = path.extname(file).toLowerCase();
+  const doc: unknown = ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+
+  if (Array.isArray(doc)) return { chains: doc };
+  if (typeof doc === "object" && doc !== null && Array.isArray((doc as RegistryFile).chains)) {
+    const { includeDefaults, chains } = doc as RegistryFile;
+    if (includeDefaults !== undefined && typeof includeDefaults !== "boolean") {
+      throw new ChainRegistryError(['"includeDefaults" must be a boolean']);
+    }
+    return { includeDefaults, chains };
+  }
+  throw new ChainRegistryError(['expected a list of chains or an object with a "chains" list']);
+}
+
+// Parses and schema-checks a registry file; network checks live in chain-checks
+export function loadChainRegistry(file: string): ChainConfig[] {
+  const { includeDefaults, chains: entries } = readRegistryFile(file);
+  const issues: string[] = [];
+  const custom = entries.flatMap((raw, i) => {
+    const id = (raw as { id?: unknown } | null)?.id;
+    const chain = validateChain(raw, typeof id === "string" ? id : `chains[${i}]`, issues);
+    return chain ? [chain] : [];
+  });
+  if (custom.length === 0 && issues.length === 0) issues.push("registry has no chains");
+
+  const customIds = new Set(custom.map((c) => c.id));
+  const chains = includeDefaults
+    ? [...DEFAULT_CHAINS.filter((c) => !customIds.has(c.id)), ...custom]
+    : custom;
+  for (const network of NETWORKS) {
+    const before = issues.length;
+    checkDuplicates(chainsForNetwork(chains, network), issues);
+    // Tag testnet-only problems so they aren't mistaken for mainnet ones
+    for (let i = before; i < issues.length; i++) {
+      if (network !== "mainnet") issues[i] = `${network}: ${issues[i]}`;
+    }
+  }
+
+  if (issues.length > 0) throw new ChainRegistryError(issues);
+  return chains;
+}
+
+let registry: ChainConfig[] | null = null;
+const byNetwork = new Map<Network, ChainConfig[]>();
+
+export function registryPath(): string | null {
+  const configured = process.env.CHAIN_REGISTRY_PATH;
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+// Every configured entry, testnet variants still nested
+function getRegistry(): ChainConfig[] {
+  if (registry) return registry;
+  const file = registryPath();
+  registry = file ? loadChainRegistry(file) : DEFAULT_CHAINS;
+  return registry;
+}
+
+export function getChains(network: Network = "mainnet"): ChainConfig[] {
+  let chains = byNetwork.get(network);
+  if (!chains) {
+    chains = chainsForNetwork(getRegistry(), network);
+    byNetwork.set(network, chains);
+  }
+  return chains;
+}
+
+export function getChain(id: string, network: Network = "mainnet"): ChainConfig | undefined {
+  return getChains(network).find((c) => c.id === id);
+}
@@ -0,0 +1,121 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { ChainRegistryError, loadChainRegistry } from "@/lib/chain-registry";
+import { chainSwap, chainTransfer, DEFAULT_CHAINS } from "@/lib/chains";
+
+const chain = (id: string) => DEFAULT_CHAINS.find((c) => c.id === id)!;
+
+describe("chain transaction catalogs", () => {
+  it("prices swaps in each chain's own gas units", () => {
+    const ethereum = chainSwap(chain("ethereum"));
+    for (const id of ["zksync", "mantle", "arbitrum"]) {
+      const swap = chainSwap(chain(id));
+      expect(swap.gasLimit).not.toBe(ethereum.gasLimit);
+      expect(swap.chainUnits).toBe(true);
+    }
+  });
+
+  it("keeps the shared gas limits where a chain has no override", () => {
+    expect(chainSwap(chain("ethereum")).chainUnits).toBe(false);
+    expect(chainTransfer(chain("ethereum")).gasLimit).toBe(21000);
+    expect(chainTransfer(chain("mantle")).gasLimit).toBeGreaterThan(21000);
+  });
+});
+
+describe("chain registry validation", () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "chain-registry-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  let files = 0;
+  function load(doc: unknown) {
+    const file = path.join(dir, `registry-${files++}.json`);
+    writeFileSync(file, JSON.stringify(doc));
+    return loadChainRegistry(file);
+  }
+
+  // The issues a registry is rejected with
+  function issuesOf(doc: unknown): string[] {
+    try {
+      load(doc);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ChainRegistryError);
+      return (error as ChainRegistryError).issues;
+    }
+    throw new Error("registry was accepted");
+  }
+
+  const custom = (id: string, color = "#123456") => ({
+    id,
+    name: `Chain ${id}`,
+    chainId: 777,
+    rpcUrl: `https://${id}.test/rpc`,
+    nativeToken: "ethereum",
+    nativeTokenSymbol: "ETH",
+    explorerUrl: `https://${id}.test`,
+    color,
+    icon: "◆",
+  });
+
+  it("accepts a valid registry and merges it over the defaults", () => {
+    expect(load([custom("devnet")]).map((c) => c.id)).toEqual(["devnet"]);
+    const merged = load({
+      includeDefaults: true,
+      chains: [{ ...custom("ethereum"), color: "#010203" }],
+    });
+    expect(merged).toHaveLength(DEFAULT_CHAINS.length);
+    expect(merged.find((c) => c.id === "ethereum")?.rpcUrl).toBe("https://ethereum.test/rpc");
+  });
+
+  it("rejects duplicate ids", () => {
+    expect(issuesOf([custom("devnet"), custom("devnet", "#654321")])).toEqual([
+      "devnet: duplicate chain id",
+    ]);
+  });
+
+  it("rejects colors that another chain already uses, ignoring case", () => {
+    expect(issuesOf([custom("one", "#ABCDEF"), custom("two", "#abcdef")])).toEqual([
+      "two: color #abcdef is already used by one",
+    ]);
+  });
+
+  it("tags duplicates that only clash on testnet", () => {
+    const testnet = (id: string, color: string) => ({ ...custom(id, color), network: "testnet" });
+    expect(issuesOf([testnet("sepolia", "#111111"), testnet("sepolia", "#222222")])).toEqual([
+      "testnet: sepolia: duplicate chain id",
+    ]);
+  });
+
+  it("reports every schema error with the chain it belongs to", () => {
+    const broken: Record<string, unknown> = { ...custom("broken"), rpcUrl: "ws://broken.test" };
+    delete broken.name;
+    broken.colour = "#000000";
+    const issues = issuesOf([
+      broken,
+      { ...custom("solana-fork", "#333333"), chainType: "solana", rollupFeeModel: "op-stack" },
+      { ...custom("odd", "#444444"), chainType: "cosmos" },
+      { ...custom("minter", "#555555"), catalog: { gasLimits: { mint: 1 } } },
+      "not a chain",
+    ]);
+    expect(issues).toEqual([
+      'broken: unknown field "colour"',
+      'broken: missing "name"',
+      'broken: "rpcUrl" must be an http(s) URL',
+      'solana-fork: "rollupFeeModel" only applies to EVM chains',
+      'odd: "chainType" must be one of evm, solana, bitcoin, starknet, tron',
+      expect.stringMatching(/^minter\.catalog: "gasLimits" refers to unknown action "mint"/),
+      "chains[4]: must be an object",
+    ]);
+  });
+
+  it("names the problems in the error message", () => {
+    expect(() => load({ chains: [] })).toThrow("Invalid chain registry:\n  registry has no chains");
+    expect(() => load({ chains: [custom("devnet")], includeDefaults: "yes" })).toThrow(
+      '"includeDefaults" must be a boolean'
+    );
+    expect(() => load({ networks: [] })).toThrow(
+      'expected a list of chains or an object with a "chains" list'
+    );
+  });
+});
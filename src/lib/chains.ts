@@ -1,3 +1,17 @@
+import type { StarknetFees, TronFees } from "@/lib/types";
+
+export type ChainType = "evm" | "solana" | "bitcoin" | "starknet" | "tron";
+
+export type Network = "mainnet" | "testnet";
+
+export const NETWORKS: Network[] = ["mainnet", "testnet"];
+
+// Missing means mainnet; null means the value isn't a known network
+export function parseNetwork(value: string | null): Network | null {
+  if (!value) return "mainnet";
+  return NETWORKS.find((n) => n === value) ?? null;
+}
+
 export interface ChainConfig {
   id: string;
   name: string;
@@ -10,12 +24,39 @@ export interface ChainConfig {
   color: string;
   icon: string;
   isEIP1559?: boolean;
-  chainType?: "evm" | "solana";
+  chainType?: ChainType;
+  rollupFeeModel?: "op-stack" | "arbitrum" | "zksync" | "scroll" | "linea";
   computeUnitsPerSwap?: number;
   signaturesPerSwap?: number;
+  // Bitcoin: virtual size of the transaction compared against a swap
+  vbytesPerSwap?: number;
+  // Absent means mainnet; testnet-only chains set "testnet"
+  network?: Network;
+  // Testnet counterpart sharing this chain's id, color and fee model
+  testnet?: ChainVariant;
+  // EVM: changes to COMMON_TRANSACTIONS for this chain
+  catalog?: TransactionCatalog;
 }
 
-export const chains: ChainConfig[] = [
+export type ChainVariant = Pick<ChainConfig, "name" | "rpcUrl" | "explorerUrl"> &
+  Partial<Pick<ChainConfig, "chainId" | "rpcFallbacks">>;
+
+// Unit of the low/average/high tiers for each chain type
+const FEE_UNITS: Record<ChainType, string> = {
+  evm: "Gwei",
+  solana: "μL/CU",
+  bitcoin: "sat/vB",
+  // Starknet tiers track the L2 gas price in STRK
+  starknet: "gFRI",
+  tron: "sun/energy",
+};
+
+export function feeUnit(chainType?: string): string {
+  return FEE_UNITS[(chainType ?? "evm") as ChainType] ?? FEE_UNITS.evm;
+}
+
+// Built-in registry; CHAIN_REGISTRY_PATH replaces or extends it at runtime
+export const DEFAULT_CHAINS: ChainConfig[] = [
   {
     id: "ethereum",
     name: "Ethereum",
@@ -27,6 +68,12 @@ export const chains: ChainConfig[] = [
     color: "#627EEA",
     icon: "E",
     isEIP1559: true,
+    testnet: {
+      name: "Sepolia",
+      chainId: 11155111,
+      rpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia.etherscan.io",
+    },
   },
   {
     id: "solana",
@@ -41,6 +88,44 @@ export const chains: ChainConfig[] = [
     icon: "$",
     computeUnitsPerSwap: 300000,
     signaturesPerSwap: 1,
+    testnet: {
+      name: "Solana Devnet",
+      rpcUrl: "https://api.devnet.solana.com",
+      explorerUrl: "https://explorer.solana.com",
+    },
+  },
+  {
+    id: "bitcoin",
+    name: "Bitcoin",
+    chainType: "bitcoin",
+    rpcUrl: "https://bitcoin-rpc.publicnode.com",
+    nativeToken: "bitcoin",
+    nativeTokenSymbol: "BTC",
+    explorerUrl: "https://mempool.space",
+    color: "#F7931A",
+    icon: "₿",
+    testnet: {
+      name: "Bitcoin Testnet",
+      rpcUrl: "https://bitcoin-testnet-rpc.publicnode.com",
+      explorerUrl: "https://mempool.space/testnet",
+    },
+  },
+  {
+    id: "tron",
+    name: "Tron",
+    chainType: "tron",
+    rpcUrl: "https://tron-rpc.publicnode.com",
+    rpcFallbacks: ["https://api.trongrid.io"],
+    nativeToken: "tron",
+    nativeTokenSymbol: "TRX",
+    explorerUrl: "https://tronscan.org/#",
+    color: "#FF060A",
+    icon: "Ŧ",
+    testnet: {
+      name: "Tron Nile",
+      rpcUrl: "https://nile.trongrid.io",
+      explorerUrl: "https://nile.tronscan.org/#",
+    },
   },
   {
     id: "polygon",
@@ -53,6 +138,12 @@ export const chains: ChainConfig[] = [
     color: "#8247E5",
     icon: "P",
     isEIP1559: true,
+    testnet: {
+      name: "Polygon Amoy",
+      chainId: 80002,
+      rpcUrl: "https://polygon-amoy-bor-rpc.publicnode.com",
+      explorerUrl: "https://amoy.polygonscan.com",
+    },
   },
   {
     id: "arbitrum",
@@ -65,6 +156,23 @@ export const chains: ChainConfig[] = [
     color: "#28A0F0",
     icon: "A",
     isEIP1559: true,
+    rollupFeeModel: "arbitrum",
+    testnet: {
+      name: "Arbitrum Sepolia",
+      chainId: 421614,
+      rpcUrl: "https://arbitrum-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia.arbiscan.io",
+    },
+    catalog: {
+      // Deposits are sent on L1; the L2 side of the bridge is ArbSys.withdrawEth
+      omit: ["bridge-deposit"],
+      actions: [
+        { id: "bridge-withdrawal", name: "Bridge Withdrawal", gasLimit: 100000, txBytes: 150, icon: "bridge" },
+      ],
+      // L2 execution only; the L1 calldata component is priced separately.
+      // Most Arbitrum volume routes through a single Uniswap v3 pool.
+      gasLimits: { swap: 140000 },
+    },
   },
   {
     id: "optimism",
@@ -77,6 +185,21 @@ export const chains: ChainConfig[] = [
     color: "#FF0420",
     icon: "O",
     isEIP1559: true,
+    rollupFeeModel: "op-stack",
+    testnet: {
+      name: "OP Sepolia",
+      chainId: 11155420,
+      rpcUrl: "https://optimism-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia-optimism.etherscan.io",
+    },
+    catalog: {
+      // Deposits are sent on L1; withdrawals go through the L2StandardBridge
+      omit: ["bridge-deposit"],
+      actions: [
+        { id: "bridge-withdrawal", name: "Bridge Withdrawal", gasLimit: 150000, txBytes: 220, icon: "bridge" },
+      ],
+      dex: "Velodrome",
+    },
   },
   {
     id: "base",
@@ -89,6 +212,21 @@ export const chains: ChainConfig[] = [
     color: "#0052FF",
     icon: "B",
     isEIP1559: true,
+    rollupFeeModel: "op-stack",
+    testnet: {
+      name: "Base Sepolia",
+      chainId: 84532,
+      rpcUrl: "https://base-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia.basescan.org",
+    },
+    catalog: {
+      // Deposits are sent on L1; withdrawals go through the L2StandardBridge
+      omit: ["bridge-deposit"],
+      actions: [
+        { id: "bridge-withdrawal", name: "Bridge Withdrawal", gasLimit: 150000, txBytes: 220, icon: "bridge" },
+      ],
+      dex: "Aerodrome",
+    },
   },
   {
     id: "bsc",
@@ -101,6 +239,13 @@ export const chains: ChainConfig[] = [
     color: "#F0B90B",
     icon: "N",
     isEIP1559: false,
+    testnet: {
+      name: "BNB Testnet",
+      chainId: 97,
+      rpcUrl: "https://bsc-testnet-rpc.publicnode.com",
+      explorerUrl: "https://testnet.bscscan.com",
+    },
+    catalog: { dex: "PancakeSwap" },
   },
   {
     id: "avalanche",
@@ -113,6 +258,13 @@ export const chains: ChainConfig[] = [
     color: "#E84142",
     icon: "V",
     isEIP1559: true,
+    testnet: {
+      name: "Avalanche Fuji",
+      chainId: 43113,
+      rpcUrl: "https://avalanche-fuji-c-chain-rpc.publicnode.com",
+      explorerUrl: "https://testnet.snowtrace.io",
+    },
+    catalog: { dex: "LFJ" },
   },
   {
     id: "berachain",
@@ -138,6 +290,29 @@ export const chains: ChainConfig[] = [
     color: "#04795B",
     icon: "G",
     isEIP1559: true,
+    testnet: {
+      name: "Gnosis Chiado",
+      chainId: 10200,
+      rpcUrl: "https://gnosis-chiado-rpc.publicnode.com",
+      explorerUrl: "https://gnosis-chiado.blockscout.com",
+    },
+  },
+  {
+    id: "starknet",
+    name: "Starknet",
+    chainType: "starknet",
+    rpcUrl: "https://starknet-rpc.publicnode.com",
+    rpcFallbacks: ["https://starknet.drpc.org"],
+    nativeToken: "starknet",
+    nativeTokenSymbol: "STRK",
+    explorerUrl: "https://voyager.online",
+    color: "#EC796B",
+    icon: "✦",
+    testnet: {
+      name: "Starknet Sepolia",
+      rpcUrl: "https://starknet-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia.voyager.online",
+    },
   },
   {
     id: "scroll",
@@ -150,6 +325,13 @@ export const chains: ChainConfig[] = [
     color: "#FFEEDA",
     icon: "S",
     isEIP1559: true,
+    rollupFeeModel: "scroll",
+    testnet: {
+      name: "Scroll Sepolia",
+      chainId: 534351,
+      rpcUrl: "https://scroll-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia.scrollscan.com",
+    },
   },
   {
     id: "zksync",
@@ -162,6 +344,25 @@ export const chains: ChainConfig[] = [
     color: "#8C8DFC",
     icon: "Z",
     isEIP1559: true,
+    rollupFeeModel: "zksync",
+    testnet: {
+      name: "zkSync Sepolia",
+      chainId: 300,
+      rpcUrl: "https://sepolia.era.zksync.dev",
+      explorerUrl: "https://sepolia.explorer.zksync.io",
+    },
+    catalog: {
+      // zkSync gas includes pubdata and account abstraction overhead
+      gasLimits: {
+        transfer: 150000,
+        "erc20-transfer": 250000,
+        "erc20-approve": 200000,
+        swap: 900000,
+        "nft-transfer": 300000,
+        "nft-mint": 450000,
+      },
+      dex: "SyncSwap",
+    },
   },
   {
     id: "linea",
@@ -174,6 +375,13 @@ export const chains: ChainConfig[] = [
     color: "#61DFFF",
     icon: "L",
     isEIP1559: true,
+    rollupFeeModel: "linea",
+    testnet: {
+      name: "Linea Sepolia",
+      chainId: 59141,
+      rpcUrl: "https://linea-sepolia-rpc.publicnode.com",
+      explorerUrl: "https://sepolia.lineascan.build",
+    },
   },
   {
     id: "mantle",
@@ -186,6 +394,26 @@ export const chains: ChainConfig[] = [
     color: "#2FF2A3",
     icon: "M",
     isEIP1559: true,
+    rollupFeeModel: "op-stack",
+    testnet: {
+      name: "Mantle Sepolia",
+      chainId: 5003,
+      rpcUrl: "https://rpc.sepolia.mantle.xyz",
+      explorerUrl: "https://sepolia.mantlescan.xyz",
+    },
+    catalog: {
+      // Mantle scales execution gas by its ETH/MNT token ratio (about 4,000)
+      gasLimits: {
+        transfer: 84000000,
+        "erc20-transfer": 260000000,
+        "erc20-approve": 184000000,
+        swap: 736000000,
+        "nft-transfer": 340000000,
+        "nft-mint": 600000000,
+        "contract-deploy": 6000000000,
+      },
+      dex: "Merchant Moe",
+    },
   },
   {
     id: "celo",
@@ -210,6 +438,7 @@ export const chains: ChainConfig[] = [
     color: "#FCFC03",
     icon: "X",
     isEIP1559: true,
+    rollupFeeModel: "op-stack",
   },
   {
     id: "monad",
@@ -223,6 +452,12 @@ export const chains: ChainConfig[] = [
     color: "#6E54FF",
     icon: "D",
     isEIP1559: true,
+    testnet: {
+      name: "Monad Testnet",
+      chainId: 10143,
+      rpcUrl: "https://testnet-rpc.monad.xyz",
+      explorerUrl: "https://testnet.monadexplorer.com",
+    },
   },
   {
     id: "megaeth",
@@ -249,23 +484,166 @@ export const chains: ChainConfig[] = [
     color: "#9655FF",
     icon: "K",
     isEIP1559: true,
+    rollupFeeModel: "op-stack",
   },
 ];
 
 export const SWAP_GAS_LIMIT = 184000;
+// Approximate signed size of a swap transaction, used to price rollup L1 data fees
+export const SWAP_TX_BYTES = 420;
 export const SOLANA_BASE_FEE_LAMPORTS = 5000;
 
-export const COMMON_TRANSACTIONS = [
-  { name: "ETH Transfer", gasLimit: 21000, icon: "arrow-right" },
-  { name: "ERC-20 Transfer", gasLimit: 65000, icon: "coin" },
-  { name: "ERC-20 Approve", gasLimit: 46000, icon: "check" },
-  { name: "Uniswap Swap", gasLimit: SWAP_GAS_LIMIT, icon: "swap" },
-  { name: "NFT Transfer", gasLimit: 85000, icon: "image" },
-  { name: "NFT Mint", gasLimit: 150000, icon: "plus" },
-  { name: "Bridge Deposit", gasLimit: 250000, icon: "bridge" },
-  { name: "Contract Deploy", gasLimit: 1500000, icon: "code" },
+export interface EvmTransaction {
+  id: string;
+  name: string;
+  gasLimit: number;
+  // Approximate signed size, used to price rollup L1 data fees
+  txBytes: number;
+  icon: string;
+}
+
+export const COMMON_TRANSACTIONS: EvmTransaction[] = [
+  { id: "transfer", name: "ETH Transfer", gasLimit: 21000, txBytes: 110, icon: "arrow-right" },
+  { id: "erc20-transfer", name: "ERC-20 Transfer", gasLimit: 65000, txBytes: 180, icon: "coin" },
+  { id: "erc20-approve", name: "ERC-20 Approve", gasLimit: 46000, txBytes: 180, icon: "check" },
+  { id: "swap", name: "Uniswap Swap", gasLimit: SWAP_GAS_LIMIT, txBytes: SWAP_TX_BYTES, icon: "swap" },
+  { id: "nft-transfer", name: "NFT Transfer", gasLimit: 85000, txBytes: 250, icon: "image" },
+  { id: "nft-mint", name: "NFT Mint", gasLimit: 150000, txBytes: 200, icon: "plus" },
+  { id: "bridge-deposit", name: "Bridge Deposit", gasLimit: 250000, txBytes: 350, icon: "bridge" },
+  { id: "contract-deploy", name: "Contract Deploy", gasLimit: 1500000, txBytes: 8000, icon: "code" },
 ];
 
+const COMMON_TRANSFER = COMMON_TRANSACTIONS[0];
+const COMMON_SWAP = COMMON_TRANSACTIONS[3];
+
+// Per-chain changes to COMMON_TRANSACTIONS
+export interface TransactionCatalog {
+  // Gas limits by action id, in the chain's own gas units
+  gasLimits?: Record<string, number>;
+  // Actions only this chain has, e.g. its canonical bridge withdrawal
+  actions?: EvmTransaction[];
+  // Action ids that don't apply on this chain
+  omit?: string[];
+  // DEX the swap action is named after, when it isn't Uniswap
+  dex?: string;
+}
+
+export interface CatalogTransaction extends EvmTransaction {
+  // Set by the chain's catalog, so zkSync's gas unit calibration doesn't apply
+  chainUnits: boolean;
+}
+
+export function chainTransactions(chain: ChainConfig): CatalogTransaction[] {
+  const catalog = chain.catalog ?? {};
+  const omit = new Set(catalog.omit ?? []);
+  // "Aerodrome Swap", but not "PancakeSwap Swap"
+  const swapName = catalog.dex && (/swap$/i.test(catalog.dex) ? catalog.dex : `${catalog.dex} Swap`);
+  const common = COMMON_TRANSACTIONS.filter((tx) => !omit.has(tx.id)).map((tx) => {
+    const gasLimit = catalog.gasLimits?.[tx.id];
+    return {
+      ...tx,
+      name: tx.id === COMMON_SWAP.id && swapName ? swapName : tx.name,
+      gasLimit: gasLimit ?? tx.gasLimit,
+      chainUnits: gasLimit !== undefined,
+    };
+  });
+  const own = (catalog.actions ?? []).map((tx) => ({ ...tx, chainUnits: true }));
+  return [...common, ...own];
+}
+
+// Chains that omit a common action fall back to the shared entry
+function chainAction(chain: ChainConfig, common: EvmTransaction): CatalogTransaction {
+  return (
+    chainTransactions(chain).find((tx) => tx.id === common.id) ?? {
+      ...common,
+      chainUnits: false,
+    }
+  );
+}
+
+// The swap behind the all-chains metric
+export function chainSwap(chain: ChainConfig): CatalogTransaction {
+  return chainAction(chain, COMMON_SWAP);
+}
+
+// The transfer behind the per-tier cost
+export function chainTransfer(chain: ChainConfig): CatalogTransaction {
+  return chainAction(chain, COMMON_TRANSFER);
+}
+
+// Virtual sizes for typical P2WPKH/P2TR spends with change
+export const BITCOIN_SWAP_VBYTES = 209;
+
+export const BITCOIN_COMMON_TRANSACTIONS = [
+  { name: "P2WPKH Send", vbytes: 141, icon: "arrow-right" },
+  { name: "2-in-2-out (P2WPKH)", vbytes: BITCOIN_SWAP_VBYTES, icon: "swap" },
+  { name: "Taproot Send", vbytes: 154, icon: "coin" },
+  { name: "Taproot 2-in-2-out", vbytes: 212, icon: "swap" },
+];
+
+// Approximate resources used by V3 (STRK-paid) transactions
+export const STARKNET_COMMON_TRANSACTIONS = [
+  { name: "STRK Transfer", l1Gas: 0, l1DataGas: 128, l2Gas: 900_000, icon: "arrow-right" },
+  { name: "Token Approve", l1Gas: 0, l1DataGas: 128, l2Gas: 600_000, icon: "check" },
+  { name: "DEX Swap", l1Gas: 0, l1DataGas: 384, l2Gas: 6_000_000, icon: "swap" },
+  { name: "Account Deploy", l1Gas: 0, l1DataGas: 288, l2Gas: 2_500_000, icon: "plus" },
+  { name: "L1 Withdrawal", l1Gas: 24_000, l1DataGas: 256, l2Gas: 2_000_000, icon: "bridge" },
+];
+
+export const STARKNET_SWAP = STARKNET_COMMON_TRANSACTIONS[2];
+
+// Before L2 gas had its own price, execution was billed as L1 gas at this ratio
+const STARKNET_L2_GAS_PER_L1_GAS = 40_000;
+
+// Price of one unit of L2 gas, the resource transactions execute on
+export function starknetL2GasPrice(fees: StarknetFees, unit: "wei" | "fri"): number {
+  return fees.l2GasPrice
+    ? fees.l2GasPrice[unit]
+    : fees.l1GasPrice[unit] / STARKNET_L2_GAS_PER_L1_GAS;
+}
+
+// Fee in ETH ("wei" prices) or STRK ("fri" prices), split like a rollup fee
+export function starknetFee(
+  tx: (typeof STARKNET_COMMON_TRANSACTIONS)[number],
+  fees: StarknetFees,
+  unit: "wei" | "fri"
+): { execution: number; data: number } {
+  const l2GasCost = tx.l2Gas * starknetL2GasPrice(fees, unit);
+  return {
+    execution: (tx.l1Gas * fees.l1GasPrice[unit] + l2GasCost) / 1e9,
+    data: (tx.l1DataGas * fees.l1DataGasPrice[unit]) / 1e9,
+  };
+}
+
+// Approximate energy and bandwidth (bytes) used by common Tron transactions
+export const TRON_COMMON_TRANSACTIONS = [
+  { name: "TRX Transfer", energy: 0, bandwidth: 270, icon: "arrow-right" },
+  { name: "USDT Transfer", energy: 65_000, bandwidth: 345, icon: "coin" },
+  { name: "USDT to New Holder", energy: 130_000, bandwidth: 345, icon: "plus" },
+  { name: "TRC-20 Approve", energy: 23_000, bandwidth: 315, icon: "check" },
+  { name: "SunSwap Swap", energy: 200_000, bandwidth: 420, icon: "swap" },
+];
+
+export const TRON_SWAP = TRON_COMMON_TRANSACTIONS[4];
+
+// Burn: TRX destroyed when the account has no resources. Staked: resources
+// come from staked TRX and the daily free bandwidth, so nothing is burned but
+// `stakeTrx` must be staked to afford one such transaction per day
+export function tronCost(
+  tx: (typeof TRON_COMMON_TRANSACTIONS)[number],
+  fees: TronFees
+): { burnTrx: number; stakeTrx: number | null } {
+  const burnTrx = (tx.energy * fees.energyPrice + tx.bandwidth * fees.bandwidthPrice) / 1e6;
+  if (fees.energyPerTrx === null || fees.bandwidthPerTrx === null) {
+    return { burnTrx, stakeTrx: null };
+  }
+  const bandwidthToStake = Math.max(tx.bandwidth - fees.freeBandwidth, 0);
+  return {
+    burnTrx,
+    stakeTrx: tx.energy / fees.energyPerTrx + bandwidthToStake / fees.bandwidthPerTrx,
+  };
+}
+
 export const SOLANA_COMMON_TRANSACTIONS = [
   { name: "SOL Transfer", computeUnits: 450, signatures: 1, icon: "arrow-right" },
   { name: "SPL Token Transfer", computeUnits: 50000, signatures: 1, icon: "coin" },
@@ -273,3 +651,27 @@ export const SOLANA_COMMON_TRANSACTIONS = [
   { name: "NFT Transfer", computeUnits: 100000, signatures: 1, icon: "image" },
   { name: "NFT Mint", computeUnits: 200000, signatures: 1, icon: "plus" },
 ];
+
+// Accounts to scope Solana priority fees to. The node only counts transactions
+// that write-lock an account, so presets name pool state accounts that swaps
+// lock rather than program ids, which are only ever read-locked.
+export const SOLANA_ACCOUNT_PRESETS: { id: string; name: string; accounts: string[] }[] = [
+  { id: "global", name: "Global", accounts: [] },
+  {
+    id: "raydium-sol-usdc",
+    name: "Raydium SOL/USDC",
+    accounts: ["58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2"],
+  },
+  {
+    id: "orca-sol-usdc",
+    name: "Orca SOL/USDC",
+    accounts: ["Czfq3xZZDmsdGdUyrNLtRhGc47cXcZtLG4crryfu44zE"],
+  },
+];
+
+// Each account is also queried on its own, so user-supplied lists are capped
+export const SOLANA_MAX_PRIORITY_ACCOUNTS = 8;
+
+export function isSolanaAddress(value: string): boolean {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { costFormatter, CurrencyRates } from "@/lib/currency";
+
+const rates: CurrencyRates = { eur: 1.08, jpy: 0.0067, eth: 2500, btc: 60000 };
+const sol = { price: 150, symbol: "SOL" };
+
+describe("cost formatter", () => {
+  it("formats USD as is", () => {
+    const usd = costFormatter("usd", rates, sol);
+    expect(usd.convert(2)).toBe(2);
+    expect(usd.format(1.5)).toBe("$1.50");
+    expect(usd.format(0)).toBe("$0");
+    expect(usd.unit).toBe("$1");
+  });
+
+  it("converts into fiat currencies at their USD rate", () => {
+    const eur = costFormatter("eur", rates, sol);
+    expect(eur.convert(2.16)).toBeCloseTo(2, 12);
+    expect(eur.format(2.16)).toBe("€2.00");
+    expect(eur.tick(0.5)).toBe("€0.50");
+    expect(eur.unit).toBe("€1");
+    expect(costFormatter("jpy", rates, sol).format(1)).toBe("¥149.25");
+  });
+
+  it("formats native, ETH and BTC amounts with their code", () => {
+    const native = costFormatter("native", rates, sol);
+    expect(native.format(3)).toBe("0.0200 SOL");
+    expect(native.unit).toBe("1 SOL");
+
+    const eth = costFormatter("eth", rates, sol);
+    expect(eth.format(0.5)).toBe("0.000200 ETH");
+    expect(eth.formatValue(1.25)).toBe("1.25 ETH");
+    expect(eth.unit).toBe("1 ETH");
+
+    expect(costFormatter("btc", rates, sol).format(0.03)).toBe("5.00e-7 BTC");
+  });
+
+  it("shows a dash when no rate is known", () => {
+    const gbp = costFormatter("gbp", rates, sol);
+    expect(gbp.convert(1)).toBeNaN();
+    expect(gbp.format(1)).toBe("—");
+    expect(gbp.unit).toBe("£1");
+    expect(costFormatter("native", rates, { price: 0, symbol: "MON" }).format(1)).toBe("—");
+  });
+
+  it("converts Starknet fees paid in ETH through the display currency", () => {
+    // 0.000003 ETH at $2500, shown in EUR as the STRK column is
+    const ethFee = 0.000003;
+    const eur = costFormatter("eur", rates, { price: 0.15, symbol: "STRK" });
+    expect(eur.format(ethFee * rates.eth!)).toBe("€0.006944");
+    // No ETH price yet
+    expect(eur.format(ethFee * NaN)).toBe("—");
+  });
+});
@@ -0,0 +1,84 @@
+export type DisplayCurrency = "usd" | "eur" | "gbp" | "jpy" | "native" | "eth" | "btc";
+
+export const DISPLAY_CURRENCIES: { id: DisplayCurrency; label: string }[] = [
+  { id: "usd", label: "USD" },
+  { id: "eur", label: "EUR" },
+  { id: "gbp", label: "GBP" },
+  { id: "jpy", label: "JPY" },
+  { id: "native", label: "Native" },
+  { id: "eth", label: "ETH" },
+  { id: "btc", label: "BTC" },
+];
+
+// Price-layer ids whose USD price is the value of one unit of the currency.
+// "native" depends on the chain and uses its token price instead.
+export const CURRENCY_PRICE_IDS: Record<Exclude<DisplayCurrency, "usd" | "native">, string> = {
+  eur: "fiat:eur",
+  gbp: "fiat:gbp",
+  jpy: "fiat:jpy",
+  eth: "ethereum",
+  btc: "bitcoin",
+};
+
+// USD value of one unit of each currency
+export type CurrencyRates = Partial<Record<DisplayCurrency, number>>;
+
+const FIAT_SYMBOLS: Partial<Record<DisplayCurrency, string>> = {
+  usd: "$",
+  eur: "€",
+  gbp: "£",
+  jpy: "¥",
+};
+
+function formatAmount(v: number): string {
+  if (v === 0) return "0";
+  if (v < 0.000001) return v.toExponential(2);
+  if (v < 0.0001) return v.toFixed(8);
+  if (v < 0.01) return v.toFixed(6);
+  if (v < 1) return v.toFixed(4);
+  return v.toFixed(2);
+}
+
+function formatTickAmount(v: number): string {
+  if (v >= 1) return v.toFixed(0);
+  if (v >= 0.01) return v.toFixed(2);
+  if (v >= 0.0001) return v.toFixed(4);
+  return v.toExponential(0);
+}
+
+export interface CostFormatter {
+  // Converts a USD amount into the display currency (NaN when no rate is known)
+  convert(usd: number): number;
+  // Formats a USD amount in the display currency
+  format(usd: number): string;
+  // Formats a value already in the display currency
+  formatValue(value: number): string;
+  // Short form of formatValue for chart axes
+  tick(value: number): string;
+  // "$1", "€1", "1 ETH": the unit behind "swaps per 1 unit"
+  unit: string;
+}
+
+export function costFormatter(
+  currency: DisplayCurrency,
+  rates: CurrencyRates,
+  native: { price: number; symbol: string }
+): CostFormatter {
+  const unitUsd =
+    currency === "usd" ? 1 : currency === "native" ? native.price : rates[currency] ?? 0;
+  const symbol = FIAT_SYMBOLS[currency];
+  const code = currency === "native" ? native.symbol : currency.toUpperCase();
+  const withUnit = (amount: string) =>
+    symbol ? `${symbol}${amount}` : code ? `${amount} ${code}` : amount;
+  const convert = (usd: number) => (unitUsd > 0 ? usd / unitUsd : NaN);
+  const formatValue = (value: number) =>
+    Number.isFinite(value) ? withUnit(formatAmount(value)) : "—";
+
+  return {
+    convert,
+    format: (usd) => formatValue(convert(usd)),
+    formatValue,
+    tick: (value) => withUnit(formatTickAmount(value)),
+    unit: withUnit("1"),
+  };
+}
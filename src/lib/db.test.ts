@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { bucketWidthMs, parseResolution, planHistoryQuery } from "@/lib/db";
+import type { GasHistoryInsert } from "@/lib/db";
+import { DAY_MS, HOUR_MS } from "@/lib/store/types";
+
+describe("bucket width", () => {
+  it("splits the range into the requested number of buckets", () => {
+    expect(bucketWidthMs(24)).toBe(432_000);
+    expect(bucketWidthMs(24, 48)).toBe(1800_000);
+  });
+
+  it("never goes below the collector's write interval", () => {
+    expect(bucketWidthMs(0.1)).toBe(60_000);
+    expect(bucketWidthMs(1, 1000)).toBe(60_000);
+  });
+
+  it("rounds up to whole milliseconds", () => {
+    // 3600000 / 7 = 514285.71...
+    expect(bucketWidthMs(1, 7)).toBe(514_286);
+  });
+});
+
+describe("history resolution", () => {
+  it("reads plain seconds and unit suffixes", () => {
+    expect(parseResolution("300")).toBe(300_000);
+    expect(parseResolution("5m")).toBe(300_000);
+    expect(parseResolution(" 1h ")).toBe(3600_000);
+    expect(parseResolution("1d")).toBe(86400_000);
+  });
+
+  it("rounds fractional values up to whole seconds", () => {
+    expect(parseResolution("1.5")).toBe(2000);
+    expect(parseResolution("0.0001h")).toBe(1000);
+    expect(parseResolution("0.5m")).toBe(30_000);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseResolution(null)).toBeNull();
+    expect(parseResolution("")).toBeNull();
+    expect(parseResolution("5 minutes")).toBeNull();
+    expect(parseResolution("-5m")).toBeNull();
+  });
+});
+
+describe("history tier", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads raw samples for sub-hour buckets within raw retention", () => {
+    expect(planHistoryQuery(24, 432_000)).toEqual({ tier: "raw", bucketMs: 432_000 });
+    expect(planHistoryQuery(24 * 30, 59 * 60_000)).toEqual({ tier: "raw", bucketMs: 3_540_000 });
+  });
+
+  it("uses whole hourly buckets once raw samples no longer cover the range", () => {
+    expect(planHistoryQuery(24 * 31, 15 * 60_000)).toEqual({ tier: "hourly", bucketMs: HOUR_MS });
+    // 7.2h buckets round up to 8h
+    expect(planHistoryQuery(24 * 60, bucketWidthMs(24 * 60))).toEqual({
+      tier: "hourly",
+      bucketMs: 8 * HOUR_MS,
+    });
+  });
+
+  it("uses whole daily buckets past hourly retention or for day-wide buckets", () => {
+    expect(planHistoryQuery(24 * 366, bucketWidthMs(24 * 366))).toEqual({
+      tier: "daily",
+      bucketMs: 2 * DAY_MS,
+    });
+    expect(planHistoryQuery(48, DAY_MS)).toEqual({ tier: "daily", bucketMs: DAY_MS });
+  });
+
+  it("follows the configured retention", () => {
+    vi.stubEnv("RAW_RETENTION_DAYS", "1");
+    expect(planHistoryQuery(48, 600_000).tier).toBe("hourly");
+    // 0 keeps raw samples forever
+    vi.stubEnv("RAW_RETENTION_DAYS", "0");
+    expect(planHistoryQuery(24 * 366, 600_000).tier).toBe("raw");
+  });
+});
+
+describe("store backend", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // db.ts keeps one store per process, so every test loads a fresh copy
+  async function loadDb(env: Record<string, string>) {
+    for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+    vi.resetModules();
+    return import("@/lib/db");
+  }
+
+  // One timestamp, so every row lands in the same bucket
+  const timestamp = Date.now() - 5 * 60_000;
+  const row = (chain: string, avgGwei: number, network?: string): GasHistoryInsert => ({
+    network,
+    chain,
+    avgGwei,
+    swapCostUsd: avgGwei / 10,
+    tokenPrice: 2000,
+    timestamp,
+  });
+
+  it("round-trips through the memory store and keeps networks apart", async () => {
+    // GAS_STORE wins over DATABASE_URL
+    const db = await loadDb({ GAS_STORE: "memory", DATABASE_URL: "postgres://unused.test/db" });
+    await db.insertGasData([
+      row("ethereum", 10),
+      row("arbitrum", 0.1, "mainnet"),
+      row("ethereum", 99, "testnet"),
+    ]);
+
+    const mainnet = await db.queryChainHistory("ethereum", 1);
+    expect(mainnet).toHaveLength(1);
+    expect(mainnet[0]).toMatchObject({ average: 10, low: 8.5, high: 11.5 });
+    const testnet = await db.queryChainHistory("ethereum", 1, undefined, "raw", "testnet");
+    expect(testnet.map((p) => p.average)).toEqual([99]);
+
+    const all = await db.queryAllChainsHistory(1);
+    expect(all).toHaveLength(1);
+    expect(Object.keys(all[0].chains).sort()).toEqual(["arbitrum", "ethereum"]);
+    expect(all[0].chains.ethereum.avg).toBe(1);
+    const allTestnet = await db.queryAllChainsHistory(1, undefined, "raw", "testnet");
+    expect(Object.keys(allTestnet[0].chains)).toEqual(["ethereum"]);
+  });
+
+  it("falls back to memory without a database URL", async () => {
+    const db = await loadDb({ GAS_STORE: "", DATABASE_URL: "" });
+    await db.insertGasData([row("base", 0.01)]);
+    expect(await db.queryChainHistory("base", 1)).toHaveLength(1);
+  });
+
+  it("rejects an unknown GAS_STORE", async () => {
+    const db = await loadDb({ GAS_STORE: "sqlite" });
+    await expect(db.insertGasData([row("base", 0.01)])).rejects.toThrow(
+      "Unknown GAS_STORE backend: sqlite"
+    );
+  });
+});
@@ -1,149 +1,187 @@
 import { neon } from "@neondatabase/serverless";
+import { Network } from "@/lib/chains";
+import { createMemoryStore } from "@/lib/store/memory";
+import { createPostgresStore, SqlExecutor } from "@/lib/store/postgres";
+import {
+  AllChainsHistoryPoint,
+  ChainHistoryPoint,
+  DAY_MS,
+  GasHistoryInsert,
+  GasStore,
+  HistoryTier,
+  HOUR_MS,
+  PriceHistoryInsert,
+  PriceHistoryPoint,
+  RetentionPolicy,
+  TIER_WIDTH_MS,
+} from "@/lib/store/types";
+
+export type {
+  BucketStats,
+  GasHistoryInsert,
+  GasStore,
+  HistoryTier,
+  PriceHistoryInsert,
+  PriceHistoryPoint,
+} from "@/lib/store/types";
+
+type StoreBackend = "neon" | "postgres" | "memory";
+
+// GAS_STORE picks the backend explicitly; otherwise DATABASE_URL means Neon
+// and no URL means an in-memory store, so the app runs without any database
+function storeBackend(): StoreBackend {
+  const configured = process.env.GAS_STORE;
+  if (configured === "neon" || configured === "postgres" || configured === "memory") {
+    return configured;
+  }
+  if (configured) throw new Error(`Unknown GAS_STORE backend: ${configured}`);
+  return process.env.DATABASE_URL ? "neon" : "memory";
+}
 
-function getSQL() {
+function databaseUrl(): string {
   const url = process.env.DATABASE_URL;
   if (!url) throw new Error("DATABASE_URL env var is not set");
-  return neon(url);
-}
-
-let initialized = false;
-
-async function ensureTable() {
-  if (initialized) return;
-  const sql = getSQL();
-  await sql`
-    CREATE TABLE IF NOT EXISTS gas_history (
-      id SERIAL PRIMARY KEY,
-      chain TEXT NOT NULL,
-      avg_gwei DOUBLE PRECISION NOT NULL,
-      swap_cost_usd DOUBLE PRECISION NOT NULL,
-      token_price DOUBLE PRECISION NOT NULL,
-      block_number INTEGER,
-      timestamp BIGINT NOT NULL
-    )
-  `;
-  await sql`
-    CREATE INDEX IF NOT EXISTS idx_chain_ts ON gas_history(chain, timestamp)
-  `;
-  initialized = true;
-}
-
-export interface GasHistoryRow {
-  id: number;
-  chain: string;
-  avg_gwei: number;
-  swap_cost_usd: number;
-  token_price: number;
-  block_number: number | null;
-  timestamp: number;
-}
-
-export async function insertGasData(
-  rows: {
-    chain: string;
-    avgGwei: number;
-    swapCostUsd: number;
-    tokenPrice: number;
-    blockNumber?: number;
-    timestamp: number;
-  }[]
-) {
-  await ensureTable();
-  const sql = getSQL();
-
-  // Batch insert using unnest for efficiency
-  const chains = rows.map((r) => r.chain);
-  const avgGweis = rows.map((r) => r.avgGwei);
-  const swapCosts = rows.map((r) => r.swapCostUsd);
-  const tokenPrices = rows.map((r) => r.tokenPrice);
-  const blockNumbers = rows.map((r) => r.blockNumber ?? null);
-  const timestamps = rows.map((r) => r.timestamp);
-
-  await sql`
-    INSERT INTO gas_history (chain, avg_gwei, swap_cost_usd, token_price, block_number, timestamp)
-    SELECT * FROM unnest(
-      ${chains}::text[],
-      ${avgGweis}::double precision[],
-      ${swapCosts}::double precision[],
-      ${tokenPrices}::double precision[],
-      ${blockNumbers}::integer[],
-      ${timestamps}::bigint[]
-    )
-  `;
+  return url;
 }
 
-export async function queryAllChainsHistory(
-  hours: number
-): Promise<{ timestamp: number; chains: Record<string, number> }[]> {
-  await ensureTable();
-  const sql = getSQL();
-  const since = Date.now() - hours * 3600_000;
-
-  const rows = await sql`
-    SELECT chain, swap_cost_usd, timestamp
-    FROM gas_history
-    WHERE timestamp > ${since}
-    ORDER BY timestamp ASC
-  ` as GasHistoryRow[];
-
-  if (rows.length === 0) return [];
-
-  // Group by timestamp (rows inserted together share the same timestamp)
-  const grouped = new Map<number, Record<string, number>>();
-  for (const row of rows) {
-    const ts = Number(row.timestamp);
-    let entry = grouped.get(ts);
-    if (!entry) {
-      entry = {};
-      grouped.set(ts, entry);
-    }
-    entry[row.chain] = row.swap_cost_usd;
+function neonExecutor(url: string): SqlExecutor {
+  const sql = neon(url);
+  return (text, params) => sql.query(text, params);
+}
+
+function pgExecutor(url: string): SqlExecutor {
+  // Loaded lazily so deployments on Neon never pull in the TCP driver
+  const pool = import("pg").then(({ Pool }) => new Pool({ connectionString: url }));
+  return async (text, params) => (await (await pool).query(text, params)).rows;
+}
+
+let store: GasStore | null = null;
+
+function getStore(): GasStore {
+  if (store) return store;
+  const backend = storeBackend();
+  if (backend === "memory") {
+    store = createMemoryStore();
+  } else {
+    const url = databaseUrl();
+    store = createPostgresStore(
+      backend === "neon" ? neonExecutor(url) : pgExecutor(url)
+    );
   }
+  return store;
+}
 
-  let points = Array.from(grouped.entries()).map(([timestamp, chains]) => ({
-    timestamp,
-    chains,
-  }));
+// Retention in days; 0 keeps rows forever
+function retentionDays(envVar: string, fallback: number): number {
+  const value = parseFloat(process.env[envVar] ?? "");
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function retentionPolicy(): RetentionPolicy {
+  return {
+    raw: retentionDays("RAW_RETENTION_DAYS", 30),
+    hourly: retentionDays("HOURLY_RETENTION_DAYS", 180),
+    daily: retentionDays("DAILY_RETENTION_DAYS", 0),
+  };
+}
+
+function covers(days: number, hours: number): boolean {
+  return days === 0 || hours <= days * 24;
+}
 
-  // Downsample to ~200 points max
-  if (points.length > 200) {
-    const step = Math.ceil(points.length / 200);
-    points = points.filter((_, i) => i % step === 0);
+// Pick the finest tier that still holds the whole range and isn't finer than
+// the requested bucket width, then align the bucket to that tier
+export function planHistoryQuery(
+  hours: number,
+  bucketMs: number
+): { tier: HistoryTier; bucketMs: number } {
+  const retention = retentionPolicy();
+  let tier: HistoryTier;
+  if (bucketMs < HOUR_MS && covers(retention.raw, hours)) {
+    tier = "raw";
+  } else if (bucketMs < DAY_MS && covers(retention.hourly, hours)) {
+    tier = "hourly";
+  } else {
+    tier = "daily";
   }
+  const width = TIER_WIDTH_MS[tier];
+  return {
+    tier,
+    bucketMs: width > 0 ? Math.ceil(bucketMs / width) * width : bucketMs,
+  };
+}
+
+// Bucket widths never go below the collector's write interval
+const MIN_BUCKET_MS = 60_000;
+export const DEFAULT_BUCKETS = 200;
+
+export function bucketWidthMs(hours: number, buckets = DEFAULT_BUCKETS): number {
+  return Math.max(MIN_BUCKET_MS, Math.ceil((hours * 3600_000) / buckets));
+}
+
+const RESOLUTION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: HOUR_MS,
+  d: DAY_MS,
+};
+
+// Accepts plain seconds ("300") or a unit suffix ("5m", "1h", "1d"), rounded
+// up to whole seconds so the SQL bucket width stays an integer
+export function parseResolution(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([smhd])?$/);
+  if (!match) return null;
+  const ms = parseFloat(match[1]) * RESOLUTION_UNITS[match[2] ?? "s"];
+  return Math.ceil(ms / 1000) * 1000;
+}
+
+function sinceFor(hours: number): number {
+  return Math.round(Date.now() - hours * 3600_000);
+}
+
+export async function insertGasData(rows: GasHistoryInsert[]) {
+  await getStore().insertGasData(rows);
+}
+
+export async function insertPriceHistory(rows: PriceHistoryInsert[]) {
+  await getStore().insertPrices(rows);
+}
+
+export async function queryPriceHistory(
+  token: string,
+  since: number,
+  until: number,
+  bucketMs = bucketWidthMs((until - since) / 3600_000)
+): Promise<PriceHistoryPoint[]> {
+  return getStore().queryPriceHistory(
+    token,
+    Math.round(since),
+    Math.round(until),
+    bucketMs
+  );
+}
+
+// Keeps the rollup tiers current and prunes rows past their retention
+export async function runMaintenance(now = Date.now()) {
+  await getStore().runMaintenance(now, retentionPolicy());
+}
 
-  return points;
+export async function queryAllChainsHistory(
+  hours: number,
+  bucketMs = bucketWidthMs(hours),
+  tier: HistoryTier = "raw",
+  network: Network = "mainnet"
+): Promise<AllChainsHistoryPoint[]> {
+  return getStore().queryAllChainsHistory(network, sinceFor(hours), bucketMs, tier);
 }
 
 export async function queryChainHistory(
   chain: string,
-  hours: number
-): Promise<{ timestamp: number; low: number; average: number; high: number }[]> {
-  await ensureTable();
-  const sql = getSQL();
-  const since = Date.now() - hours * 3600_000;
-
-  const rows = await sql`
-    SELECT avg_gwei, timestamp
-    FROM gas_history
-    WHERE chain = ${chain} AND timestamp > ${since}
-    ORDER BY timestamp ASC
-  ` as GasHistoryRow[];
-
-  if (rows.length === 0) return [];
-
-  // We only store avg_gwei; approximate low/high as ±15%
-  let points = rows.map((row) => ({
-    timestamp: Number(row.timestamp),
-    low: row.avg_gwei * 0.85,
-    average: row.avg_gwei,
-    high: row.avg_gwei * 1.15,
-  }));
-
-  // Downsample to ~200 points max
-  if (points.length > 200) {
-    const step = Math.ceil(points.length / 200);
-    points = points.filter((_, i) => i % step === 0);
-  }
-
-  return points;
+  hours: number,
+  bucketMs = bucketWidthMs(hours),
+  tier: HistoryTier = "raw",
+  network: Network = "mainnet"
+): Promise<ChainHistoryPoint[]> {
+  return getStore().queryChainHistory(network, chain, sinceFor(hours), bucketMs, tier);
 }
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CHAINS } from "@/lib/chains";
+import { parseSolanaTransaction, simulateSolanaTransaction } from "@/lib/estimate";
+
+vi.mock("@/lib/gas-fetcher", () => ({
+  fetchChainGasData: async () => ({ low: 1000, average: 5000, high: 20000 }),
+}));
+vi.mock("@/lib/price-oracle", () => ({
+  getTokenPrice: async () => ({ price: 150 }),
+}));
+
+const solana = DEFAULT_CHAINS.find((c) => c.id === "solana")!;
+
+const COMPUTE_BUDGET = Buffer.from(
+  "0306466fe5211732ffecadba72c39be7bc8ce5bbc5f7126b2c439b3a40000000",
+  "hex"
+);
+
+function u32(n: number): Buffer {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(n);
+  return b;
+}
+
+function u64(n: number): Buffer {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64LE(BigInt(n));
+  return b;
+}
+
+// Legacy transaction: payer, recipient, system program and the compute budget
+// program, with optional compute budget instructions before a transfer
+function transaction(budget: { limit?: number; price?: number }): string {
+  const keys = [Buffer.alloc(32, 1), Buffer.alloc(32, 2), Buffer.alloc(32, 0), COMPUTE_BUDGET];
+  const instructions: Buffer[] = [];
+  if (budget.limit !== undefined) {
+    instructions.push(Buffer.concat([Buffer.from([3, 0, 5, 2]), u32(budget.limit)]));
+  }
+  if (budget.price !== undefined) {
+    instructions.push(Buffer.concat([Buffer.from([3, 0, 9, 3]), u64(budget.price)]));
+  }
+  instructions.push(Buffer.concat([Buffer.from([2, 2, 0, 1, 12]), u32(2), u64(1_000_000)]));
+
+  const message = Buffer.concat([
+    Buffer.from([1, 0, 2, keys.length]),
+    ...keys,
+    Buffer.alloc(32, 9),
+    Buffer.from([instructions.length]),
+    ...instructions,
+  ]);
+  return Buffer.concat([Buffer.from([1]), Buffer.alloc(64), message]).toString("base64");
+}
+
+// Simulates 1,500 CUs; getFeeForMessage charges the signature plus the
+// transaction's own priority fee
+function mockRpc(feeForMessage: number) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: { body: string }) => {
+      const { id, method } = JSON.parse(init.body);
+      const result =
+        method === "simulateTransaction"
+          ? { value: { err: null, logs: [], unitsConsumed: 1500 } }
+          : { value: feeForMessage };
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id, result }));
+    })
+  );
+}
+
+describe("Solana transaction parsing", () => {
+  it("defaults to 200k CUs per instruction without a compute budget", () => {
+    const parts = parseSolanaTransaction(transaction({}));
+    expect(parts).toMatchObject({ requiredSignatures: 1, computeUnitLimit: 200_000, computeUnitPrice: 0 });
+  });
+
+  it("reads SetComputeUnitLimit and SetComputeUnitPrice", () => {
+    const parts = parseSolanaTransaction(transaction({ limit: 30_000, price: 50_000 }));
+    expect(parts).toMatchObject({ computeUnitLimit: 30_000, computeUnitPrice: 50_000 });
+  });
+
+  it("rejects truncated messages", () => {
+    const bytes = Buffer.from(transaction({ limit: 30_000 }), "base64");
+    expect(parseSolanaTransaction(bytes.subarray(0, bytes.length - 4).toString("base64"))).toBeNull();
+  });
+});
+
+describe("Solana simulation fees", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("charges tiers on the default limit when no CU price is set", async () => {
+    mockRpc(5000);
+    const parts = parseSolanaTransaction(transaction({}))!;
+    const sim = await simulateSolanaTransaction(solana, transaction({}), parts);
+    expect(sim.baseFee).toBe(5000);
+    expect(sim.computeUnitLimit).toBe(200_000);
+    // 200k CUs at 5,000 μlamports, not the 1,500 CUs that ran
+    expect(sim.average.token * 1e9).toBeCloseTo(5000 + 1000, 6);
+  });
+
+  it("removes the embedded priority fee from the base fee", async () => {
+    const tx = transaction({ limit: 30_000, price: 50_000 });
+    // 30k CUs at 50,000 μlamports embeds 1,500 lamports
+    mockRpc(5000 + 1500);
+    const sim = await simulateSolanaTransaction(solana, tx, parseSolanaTransaction(tx)!);
+    expect(sim.baseFee).toBe(5000);
+    expect(sim.high.token * 1e9).toBeCloseTo(5000 + 600, 6);
+  });
+});
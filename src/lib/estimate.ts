@@ -0,0 +1,243 @@
+import { ChainConfig, SOLANA_BASE_FEE_LAMPORTS } from "@/lib/chains";
+import { fetchChainGasData } from "@/lib/gas-fetcher";
+import { getTokenPrice } from "@/lib/price-oracle";
+import { fetchL1DataFee, representativeTx } from "@/lib/rollup-fees";
+import { chainRpcUrls, createRpcClient, hexResult } from "@/lib/rpc";
+import { ChainEstimate, SolanaSimulation, TierCost } from "@/lib/types";
+
+// Signed size of a transaction with empty calldata, as in the ETH Transfer entry
+const TX_ENVELOPE_BYTES = 110;
+
+// Call object for eth_estimateGas; all fields are 0x-prefixed hex
+export interface EstimateCall {
+  to?: string;
+  from?: string;
+  data?: string;
+  value?: string;
+}
+
+export async function estimateTransaction(
+  chain: ChainConfig,
+  call: EstimateCall
+): Promise<ChainEstimate> {
+  if ((chain.chainType ?? "evm") !== "evm") {
+    throw new Error(`${chain.name} is not an EVM chain`);
+  }
+  const urls = chainRpcUrls(chain);
+  const rpc = createRpcClient(urls);
+  const calldata = (call.data ?? "0x").slice(2);
+  const txBytes = TX_ENVELOPE_BYTES + calldata.length / 2;
+
+  const [gasHex, gas, l1DataFee, price] = await Promise.all([
+    rpc.call("eth_estimateGas", [call]),
+    fetchChainGasData(chain, urls),
+    // Arbitrum already folds the L1 component into the estimate as extra gas
+    chain.rollupFeeModel === "arbitrum"
+      ? null
+      : rpc
+          .run((url) =>
+            fetchL1DataFee(chain, url, txBytes, representativeTx(TX_ENVELOPE_BYTES) + calldata)
+          )
+          .catch(() => null),
+    getTokenPrice(chain.nativeToken),
+  ]);
+
+  // zkSync's estimate includes pubdata gas, so it's priced at the L2 tiers as is
+  const gasUsed = parseInt(hexResult(gasHex), 16);
+  const dataFee = l1DataFee ? (l1DataFee.feePerByte * txBytes) / 1e9 : 0;
+  const tier = (gwei: number): TierCost => {
+    const token = (gwei * gasUsed) / 1e9 + dataFee;
+    return { token, usd: token * price.price };
+  };
+
+  return {
+    chain: chain.id,
+    name: chain.name,
+    nativeTokenSymbol: chain.nativeTokenSymbol,
+    tokenPrice: price.price,
+    gasUsed,
+    l1DataFee: dataFee,
+    low: tier(gas.low),
+    average: tier(gas.average),
+    high: tier(gas.high),
+  };
+}
+
+// The transaction failed in simulation; logs carry the program output
+export class SimulationError extends Error {
+  constructor(message: string, public logs: string[]) {
+    super(message);
+    this.name = "SimulationError";
+  }
+}
+
+// Largest serialized transaction a Solana packet carries
+export const SOLANA_MAX_TX_BYTES = 1232;
+
+export interface SolanaTransactionParts {
+  requiredSignatures: number;
+  // Base64 message, as getFeeForMessage takes it
+  message: string;
+  // CUs the priority fee is charged on: SetComputeUnitLimit, or the default
+  // per-instruction allowance
+  computeUnitLimit: number;
+  // μlamports per CU from SetComputeUnitPrice; 0 when the transaction sets none
+  computeUnitPrice: number;
+}
+
+// ComputeBudget111111111111111111111111111111
+const COMPUTE_BUDGET_PROGRAM =
+  "0306466fe5211732ffecadba72c39be7bc8ce5bbc5f7126b2c439b3a40000000";
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+const DEFAULT_INSTRUCTION_COMPUTE_UNITS = 200_000;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+// Lamports of priority fee for a CU limit at a μlamports-per-CU price
+export function solanaPriorityFee(computeUnitLimit: number, microLamportsPerCu: number): number {
+  return Math.ceil((computeUnitLimit * microLamportsPerCu) / 1e6);
+}
+
+// A serialized transaction is a compact-u16 signature count, the 64-byte
+// signatures, then the message: header, account keys, recent blockhash and
+// instructions. Null when the bytes don't fit that shape.
+export function parseSolanaTransaction(base64: string): SolanaTransactionParts | null {
+  const bytes = Buffer.from(base64, "base64");
+  if (bytes.length === 0 || bytes.length > SOLANA_MAX_TX_BYTES) return null;
+
+  let offset = 0;
+  const take = (length: number): Buffer | null => {
+    if (offset + length > bytes.length) return null;
+    const out = bytes.subarray(offset, offset + length);
+    offset += length;
+    return out;
+  };
+  const shortVec = (): number | null => {
+    let value = 0;
+    for (let shift = 0; shift <= 14; shift += 7) {
+      const byte = bytes[offset++];
+      if (byte === undefined) return null;
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    return null;
+  };
+
+  const signatureCount = shortVec();
+  if (signatureCount === null || !take(signatureCount * 64)) return null;
+  const messageStart = offset;
+  // Versioned messages start with 0x80 | version before the header
+  if (bytes[offset] !== undefined && bytes[offset] & 0x80) offset++;
+  const header = take(3);
+  if (!header || header[0] === 0) return null;
+
+  const keyCount = shortVec();
+  const keys = keyCount === null ? null : take(keyCount * 32);
+  if (!keys || !take(32)) return null;
+
+  const instructionCount = shortVec();
+  if (instructionCount === null) return null;
+  let requestedLimit: number | null = null;
+  let computeUnitPrice = 0;
+  let otherInstructions = 0;
+  for (let i = 0; i < instructionCount; i++) {
+    const programIndex = take(1)?.[0];
+    const accountCount = shortVec();
+    if (programIndex === undefined || accountCount === null || !take(accountCount)) return null;
+    const dataLength = shortVec();
+    const data = dataLength === null ? null : take(dataLength);
+    if (!data) return null;
+
+    const program = keys.subarray(programIndex * 32, programIndex * 32 + 32).toString("hex");
+    if (program !== COMPUTE_BUDGET_PROGRAM) {
+      otherInstructions++;
+    } else if (data[0] === SET_COMPUTE_UNIT_LIMIT && data.length >= 5) {
+      requestedLimit = data.readUInt32LE(1);
+    } else if (data[0] === SET_COMPUTE_UNIT_PRICE && data.length >= 9) {
+      computeUnitPrice = Number(data.readBigUInt64LE(1));
+    }
+  }
+
+  const computeUnitLimit = Math.min(
+    requestedLimit ?? otherInstructions * DEFAULT_INSTRUCTION_COMPUTE_UNITS,
+    MAX_COMPUTE_UNIT_LIMIT
+  );
+
+  return {
+    requiredSignatures: header[0],
+    message: bytes.subarray(messageStart).toString("base64"),
+    computeUnitLimit,
+    computeUnitPrice,
+  };
+}
+
+interface SimulationValue {
+  err: unknown;
+  logs: string[] | null;
+  unitsConsumed?: number;
+}
+
+export async function simulateSolanaTransaction(
+  chain: ChainConfig,
+  transaction: string,
+  parts: SolanaTransactionParts
+): Promise<SolanaSimulation> {
+  if (chain.chainType !== "solana") {
+    throw new Error(`${chain.name} is not a Solana chain`);
+  }
+  const urls = chainRpcUrls(chain);
+  const rpc = createRpcClient(urls);
+
+  const [simulation, feeForMessage, gas, price] = await Promise.all([
+    // Signatures aren't checked and the blockhash is swapped for a fresh one,
+    // so unsigned or stale transactions still simulate
+    rpc.call("simulateTransaction", [
+      transaction,
+      { encoding: "base64", sigVerify: false, replaceRecentBlockhash: true, commitment: "processed" },
+    ]) as Promise<{ value: SimulationValue }>,
+    rpc
+      .call("getFeeForMessage", [parts.message, { commitment: "processed" }])
+      .catch(() => null) as Promise<{ value: number | null } | null>,
+    fetchChainGasData(chain, urls),
+    getTokenPrice(chain.nativeToken),
+  ]);
+
+  const logs = simulation.value.logs ?? [];
+  if (simulation.value.err !== null) {
+    throw new SimulationError(
+      `Simulation failed: ${JSON.stringify(simulation.value.err)}`,
+      logs
+    );
+  }
+
+  const unitsConsumed = simulation.value.unitsConsumed ?? 0;
+  // getFeeForMessage includes the transaction's own priority fee, which the
+  // tiers replace; it returns null once the message's blockhash has expired
+  const baseFee =
+    feeForMessage?.value != null
+      ? Math.max(
+          feeForMessage.value - solanaPriorityFee(parts.computeUnitLimit, parts.computeUnitPrice),
+          0
+        )
+      : parts.requiredSignatures * SOLANA_BASE_FEE_LAMPORTS;
+  // The priority fee is charged on the requested limit, not on what ran
+  const tier = (microLamportsPerCu: number): TierCost => {
+    const token = (baseFee + solanaPriorityFee(parts.computeUnitLimit, microLamportsPerCu)) / 1e9;
+    return { token, usd: token * price.price };
+  };
+
+  return {
+    chain: chain.id,
+    nativeTokenSymbol: chain.nativeTokenSymbol,
+    tokenPrice: price.price,
+    unitsConsumed,
+    computeUnitLimit: parts.computeUnitLimit,
+    signatures: parts.requiredSignatures,
+    baseFee,
+    priorityFees: { low: gas.low, average: gas.average, high: gas.high },
+    low: tier(gas.low),
+    average: tier(gas.average),
+    high: tier(gas.high),
+    logs,
+  };
+}
@@ -0,0 +1,326 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BITCOIN_SWAP_VBYTES, DEFAULT_CHAINS, STARKNET_SWAP, starknetFee } from "@/lib/chains";
+import { fetchChainGasData, fetchConsensusGasData } from "@/lib/gas-fetcher";
+
+const chain = (id: string) => DEFAULT_CHAINS.find((c) => c.id === id)!;
+
+type Handler = (method: string, params: unknown[], url: string) => unknown;
+
+// Answers single and batched JSON-RPC calls; a thrown handler becomes an RPC error
+function mockRpc(handler: Handler) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      const answer = (r: { id: number; method: string; params: unknown[] }) => {
+        try {
+          return { jsonrpc: "2.0", id: r.id, result: handler(r.method, r.params, url) };
+        } catch (error) {
+          return { jsonrpc: "2.0", id: r.id, error: { code: -32601, message: String(error) } };
+        }
+      };
+      return new Response(JSON.stringify(Array.isArray(body) ? body.map(answer) : answer(body)));
+    })
+  );
+}
+
+describe("EVM gas data", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("falls back to eth_gasPrice when block and fee history calls fail", async () => {
+    mockRpc((method) => {
+      if (method === "eth_blockNumber") return "0x10";
+      if (method === "eth_gasPrice") return "0x3b9aca00";
+      throw new Error(`${method} unsupported`);
+    });
+    const data = await fetchChainGasData(chain("ethereum"), ["https://evm.test/partial"]);
+    expect(data.blockNumber).toBe(16);
+    expect(data.average).toBe(1);
+    expect(data.baseFee).toBeNull();
+    expect(data.networkStats.txCount).toBe(0);
+  });
+});
+
+describe("RPC consensus", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Each endpoint reports a head and a gas price (in gwei) through the eth_gasPrice fallback
+  function mockEndpoints(readings: Record<string, { block: number; gwei: number } | null>) {
+    mockRpc((method, _params, url) => {
+      const reading = readings[url];
+      if (!reading) throw new Error("endpoint down");
+      if (method === "eth_blockNumber") return "0x" + reading.block.toString(16);
+      if (method === "eth_gasPrice") return "0x" + Math.round(reading.gwei * 1e9).toString(16);
+      throw new Error(`${method} unsupported`);
+    });
+  }
+
+  it("takes the median across endpoints that agree on the head", async () => {
+    const urls = ["https://a.test/agree", "https://b.test/agree", "https://c.test/agree"];
+    mockEndpoints({
+      [urls[0]]: { block: 100, gwei: 1 },
+      [urls[1]]: { block: 101, gwei: 1.04 },
+      [urls[2]]: { block: 99, gwei: 1.02 },
+    });
+    const data = await fetchConsensusGasData(chain("ethereum"), urls);
+    expect(data.blockNumber).toBe(101);
+    expect(data.average).toBe(1.02);
+    expect(data.rpcEndpoints).toEqual(urls);
+    expect(data.consensus).toMatchObject({ responded: 3, agreeing: 3, stale: [] });
+    expect(data.consensus!.spread).toBeCloseTo(0.04 / 1.02, 9);
+    expect(data.consensus!.lowConfidence).toBe(false);
+  });
+
+  it("outvotes an outlier but flags the spread", async () => {
+    const urls = ["https://a.test/outlier", "https://b.test/outlier", "https://c.test/outlier"];
+    mockEndpoints({
+      [urls[0]]: { block: 100, gwei: 1 },
+      [urls[1]]: { block: 100, gwei: 25 },
+      [urls[2]]: { block: 100, gwei: 1.1 },
+    });
+    const data = await fetchConsensusGasData(chain("ethereum"), urls);
+    expect(data.average).toBe(1.1);
+    expect(data.consensus).toMatchObject({ agreeing: 3, lowConfidence: true });
+    expect(data.consensus!.spread).toBeCloseTo(24 / 1.1, 9);
+  });
+
+  it("drops endpoints whose head lags and ones that fail", async () => {
+    const urls = ["a", "b", "c", "d"].map((host) => `https://${host}.test/lag`);
+    mockEndpoints({
+      [urls[0]]: { block: 100, gwei: 1 },
+      [urls[1]]: { block: 100, gwei: 1.2 },
+      // 11 blocks behind, past the default lag of 10
+      [urls[2]]: { block: 89, gwei: 9 },
+      [urls[3]]: null,
+    });
+    const data = await fetchConsensusGasData(chain("ethereum"), urls);
+    expect(data.average).toBe(1.1);
+    expect(data.rpcEndpoints).toEqual(urls.slice(0, 2));
+    expect(data.consensus).toMatchObject({
+      responded: 3,
+      agreeing: 2,
+      stale: [urls[2]],
+      lowConfidence: true,
+    });
+  });
+
+  it("rethrows when no endpoint answers", async () => {
+    mockEndpoints({});
+    await expect(
+      fetchConsensusGasData(chain("ethereum"), ["https://a.test/down", "https://b.test/down"])
+    ).rejects.toThrow("endpoint down");
+  });
+});
+
+describe("Bitcoin gas data", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // estimatesmartfee answers per confirmation target, in BTC/kvB
+  function mockBitcoin(estimates: Record<number, unknown>, mempoolminfee = 0.00002) {
+    mockRpc((method, params) => {
+      if (method === "getblockcount") return 850_000;
+      if (method === "getmempoolinfo") {
+        return { size: 40_000, bytes: 500_000, mempoolminfee, minrelaytxfee: 0.00001 };
+      }
+      if (method === "estimatesmartfee") return estimates[params[0] as number];
+      throw new Error(`${method} unsupported`);
+    });
+  }
+
+  it("maps confirmation targets to sat/vB tiers", async () => {
+    mockBitcoin({
+      1: { feerate: 0.00025, blocks: 1 },
+      3: { feerate: 0.00012, blocks: 3 },
+      6: { feerate: 0.00008, blocks: 6 },
+      144: { feerate: 0.00001, blocks: 144 },
+    });
+    const data = await fetchChainGasData(chain("bitcoin"), ["https://btc.test/tiers"]);
+    expect(data.blockNumber).toBe(850_000);
+    expect(data.low).toBeCloseTo(8, 9);
+    expect(data.average).toBeCloseTo(12, 9);
+    expect(data.high).toBeCloseTo(25, 9);
+    // The day-long target is floored at the mempool minimum
+    expect(data.baseFee).toBeCloseTo(2, 9);
+    expect(data.bitcoinFees!.targets.map((t) => t.blocks)).toEqual([1, 3, 6, 144]);
+    expect(data.bitcoinFees!.targets[3].feeRate).toBeCloseTo(2, 9);
+    expect(data.networkStats.utilization).toBe(50);
+    // The catalog prices a 2-in-2-out spend at the average tier, in BTC
+    expect((data.average * BITCOIN_SWAP_VBYTES) / 1e8).toBeCloseTo(0.00002508, 12);
+  });
+
+  it("keeps tiers ordered when targets are missing or inverted", async () => {
+    mockBitcoin({
+      1: { errors: ["Insufficient data or no feerate found"], blocks: 2 },
+      3: { feerate: 0.00005, blocks: 3 },
+      6: { feerate: 0.00009, blocks: 6 },
+    });
+    const data = await fetchChainGasData(chain("bitcoin"), ["https://btc.test/sparse"]);
+    expect(data.bitcoinFees!.targets.map((t) => t.blocks)).toEqual([3, 6]);
+    expect(data.low).toBeCloseTo(9, 9);
+    expect(data.average).toBeCloseTo(9, 9);
+    expect(data.high).toBeCloseTo(9, 9);
+  });
+});
+
+describe("Starknet gas data", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const price = (weiGwei: number, friGwei: number) => ({
+    price_in_wei: "0x" + Math.round(weiGwei * 1e9).toString(16),
+    price_in_fri: "0x" + Math.round(friGwei * 1e9).toString(16),
+  });
+
+  function mockStarknet(block: Record<string, unknown>) {
+    mockRpc((method) => {
+      if (method === "starknet_getBlockWithTxHashes") {
+        return {
+          block_number: 900_000,
+          l1_gas_price: price(20, 40_000),
+          l1_data_gas_price: price(0.25, 500),
+          l1_da_mode: "BLOB",
+          transactions: ["0x1", "0x2"],
+          ...block,
+        };
+      }
+      throw new Error(`${method} unsupported`);
+    });
+  }
+
+  it("prices every tier at the L2 gas price", async () => {
+    mockStarknet({ l2_gas_price: price(0.0005, 10) });
+    const data = await fetchChainGasData(chain("starknet"), ["https://starknet.test/l2"]);
+    expect([data.low, data.average, data.high]).toEqual([10, 10, 10]);
+    expect(data.networkStats.txCount).toBe(2);
+
+    // A swap in STRK from fri prices, and in ETH from wei prices
+    const fees = data.starknetFees!;
+    const strk = starknetFee(STARKNET_SWAP, fees, "fri");
+    expect(strk.execution).toBeCloseTo(0.06, 12);
+    expect(strk.data).toBeCloseTo(0.000192, 12);
+    expect(strk.execution).toBeCloseTo((STARKNET_SWAP.l2Gas * data.average) / 1e9, 12);
+    const eth = starknetFee(STARKNET_SWAP, fees, "wei");
+    expect(eth.execution).toBeCloseTo(0.000003, 15);
+    expect(eth.data).toBeCloseTo(0.000000096, 15);
+  });
+
+  it("derives the L2 gas price from L1 gas on blocks before 0.13.3", async () => {
+    mockStarknet({});
+    const data = await fetchChainGasData(chain("starknet"), ["https://starknet.test/legacy"]);
+    expect(data.starknetFees!.l2GasPrice).toBeNull();
+    // 40000 gfri per L1 gas at 40000 L2 gas per L1 gas
+    expect(data.average).toBe(1);
+    expect(starknetFee(STARKNET_SWAP, data.starknetFees!, "fri").execution).toBeCloseTo(0.006, 12);
+  });
+});
+
+describe("Solana gas data", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("ignores slots without a priority fee", async () => {
+    const fees = [0, 0, 0, 0, 0, 0, 100, 200, 300, 400].map((prioritizationFee, slot) => ({
+      slot,
+      prioritizationFee,
+    }));
+    mockRpc((method) => {
+      if (method === "getRecentPrioritizationFees") return fees;
+      if (method === "getSlot") return 42;
+      return [];
+    });
+    const data = await fetchChainGasData(chain("solana"), ["https://solana.test/fees"]);
+    expect([data.low, data.average, data.high]).toEqual([200, 300, 400]);
+  });
+});
+
+const TRON_PARAMETERS = {
+  chainParameter: [
+    { key: "getTransactionFee", value: 1000 },
+    { key: "getEnergyFee", value: 420 },
+    { key: "getFreeNetLimit", value: 600 },
+    // Zero-valued parameters come without a value
+    { key: "getAllowMultiSign" },
+  ],
+};
+
+// Serves TronGrid's /wallet/* endpoints from a path -> body table
+function mockTron(routes: Record<string, unknown>) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const path = url.slice(url.indexOf("wallet/"));
+      return new Response(JSON.stringify(routes[path] ?? { Error: `no route ${path}` }));
+    })
+  );
+}
+
+describe("Tron gas data", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads resource prices and staking yields", async () => {
+    mockTron({
+      "wallet/getblock": { block_header: { raw_data: { number: 70_000_000 } } },
+      "wallet/getchainparameters": TRON_PARAMETERS,
+      "wallet/getenergyprices": { prices: "0:100,1000:420,2000:210" },
+      "wallet/getaccountresource": {
+        TotalEnergyLimit: 180_000_000_000,
+        TotalEnergyWeight: 18_000_000_000,
+        TotalNetLimit: 43_200_000_000,
+        TotalNetWeight: 21_600_000_000,
+      },
+    });
+    const data = await fetchChainGasData(chain("tron"), ["https://tron.test/ok"]);
+    expect(data.blockNumber).toBe(70_000_000);
+    expect(data.average).toBe(210);
+    expect(data.tronFees).toEqual({
+      energyPrice: 210,
+      bandwidthPrice: 1000,
+      freeBandwidth: 600,
+      energyPerTrx: 10,
+      bandwidthPerTrx: 2,
+    });
+  });
+
+  it("falls back to the chain parameter when energy prices are unreadable", async () => {
+    mockTron({
+      "wallet/getblock": { block_header: { raw_data: { number: 1 } } },
+      "wallet/getchainparameters": TRON_PARAMETERS,
+      "wallet/getenergyprices": { prices: "garbage" },
+    });
+    const data = await fetchChainGasData(chain("tron"), ["https://tron.test/no-prices"]);
+    expect(data.tronFees?.energyPrice).toBe(420);
+    expect(data.tronFees?.energyPerTrx).toBeNull();
+  });
+
+  it("fails on a block without a number", async () => {
+    mockTron({
+      "wallet/getblock": { blockID: "00" },
+      "wallet/getchainparameters": TRON_PARAMETERS,
+    });
+    await expect(
+      fetchChainGasData(chain("tron"), ["https://tron.test/bad-block"])
+    ).rejects.toThrow(/wallet\/getblock/);
+  });
+
+  it("fails when a fee parameter is missing instead of pricing at 0", async () => {
+    mockTron({
+      "wallet/getblock": { block_header: { raw_data: { number: 1 } } },
+      "wallet/getchainparameters": {
+        chainParameter: TRON_PARAMETERS.chainParameter.filter((p) => p.key !== "getTransactionFee"),
+      },
+    });
+    await expect(
+      fetchChainGasData(chain("tron"), ["https://tron.test/no-fee"])
+    ).rejects.toThrow(/getTransactionFee/);
+  });
+});
@@ -1,140 +1,662 @@
-import { chains, SWAP_GAS_LIMIT, SOLANA_BASE_FEE_LAMPORTS } from "@/lib/chains";
+import { getChains } from "@/lib/chain-registry";
+import {
+  BITCOIN_SWAP_VBYTES,
+  ChainConfig,
+  chainSwap,
+  Network,
+  SOLANA_BASE_FEE_LAMPORTS,
+  STARKNET_SWAP,
+  starknetFee,
+  starknetL2GasPrice,
+  TRON_SWAP,
+  tronCost,
+} from "@/lib/chains";
+import {
+  chainRpcUrls,
+  createRpcClient,
+  hexResult,
+  isRecord,
+  restCall,
+  RpcBatchResult,
+  RpcClient,
+  RpcRequest,
+  RpcResponseError,
+} from "@/lib/rpc";
+import { fetchL1DataFee, fetchZkSyncFee } from "@/lib/rollup-fees";
+import { getTokenPrices } from "@/lib/price-oracle";
+import {
+  BitcoinFees,
+  GasConsensus,
+  GasData,
+  PriorityFees,
+  StarknetFees,
+  StarknetResourcePrice,
+  TokenPrice,
+  TronFees,
+} from "@/lib/types";
 
-export async function rpcCall(
-  rpcUrl: string,
-  method: string,
-  params: unknown[] = []
+interface EvmBlock {
+  transactions?: string[];
+  gasUsed?: string;
+  gasLimit?: string;
+}
+
+interface FeeHistory {
+  baseFeePerGas: string[];
+  reward: string[][];
+  gasUsedRatio: number[];
+}
+
+function percentile(arr: number[], p: number): number {
+  if (arr.length === 0) return 0;
+  const idx = Math.floor(arr.length * p);
+  return arr[Math.min(idx, arr.length - 1)];
+}
+
+// A call that failed inside a batch is retried on its own so it can fail over
+function batchValue(
+  rpc: RpcClient,
+  request: RpcRequest,
+  result: RpcBatchResult
 ) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 12000);
-  try {
-    const res = await fetch(rpcUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
-      signal: controller.signal,
-    });
-    const json = await res.json();
-    if (json.error) throw new Error(json.error.message);
-    return json.result;
-  } finally {
-    clearTimeout(timeout);
-  }
+  if (result.status === "fulfilled") return Promise.resolve(result.value);
+  return rpc.call(request.method, request.params);
 }
 
-// Fallback prices (updated periodically as approximations)
-const FALLBACK_PRICES: Record<string, number> = {
-  ethereum: 2500,
-  "matic-network": 0.35,
-  binancecoin: 600,
-  "avalanche-2": 25,
-  "berachain-bera": 4,
-  xdai: 1.0,
-  mantle: 0.75,
-  celo: 0.5,
-  solana: 150,
-  monad: 0.5,
-};
-
-// Batched price cache
-const priceCache: Record<string, number> = { ...FALLBACK_PRICES };
-let lastPriceFetch = 0;
-const PRICE_CACHE_TTL = 120_000;
-
-export async function fetchAllPrices(): Promise<Record<string, number>> {
-  if (Date.now() - lastPriceFetch < PRICE_CACHE_TTL && lastPriceFetch > 0) {
-    return priceCache;
-  }
+export interface GasFetchOptions {
+  // Solana: writable accounts to scope priority fees to; empty means global
+  solanaAccounts?: string[];
+}
+
+type PrioritizationFees = Array<{ slot: number; prioritizationFee: number }>;
+
+interface PerformanceSample {
+  numTransactions: number;
+  samplePeriodSecs: number;
+}
+
+// Most slots have no priority fee at all; tiers come from slots that paid one
+function priorityFeeTiers(fees: PrioritizationFees) {
+  const values = fees
+    .map((f) => f.prioritizationFee)
+    .filter((f) => f > 0)
+    .sort((a, b) => a - b);
+  return {
+    low: percentile(values, 0.25),
+    average: percentile(values, 0.5),
+    high: percentile(values, 0.75),
+    samples: values.length,
+  };
+}
 
-  const uniqueTokens = [...new Set(chains.map((c) => c.nativeToken))];
-  const ids = uniqueTokens.join(",");
+async function fetchSolanaGasData(
+  chain: ChainConfig,
+  rpc: RpcClient,
+  accounts: string[] = []
+): Promise<GasData> {
+  // The combined query prices write-locking every account at once; with
+  // several accounts each one is also queried on its own
+  const perAccount = accounts.length > 1 ? accounts : [];
+  const requests: RpcRequest[] = [
+    { method: "getRecentPrioritizationFees", params: [accounts] },
+    { method: "getSlot" },
+    { method: "getRecentPerformanceSamples", params: [1] },
+    ...perAccount.map((account) => ({
+      method: "getRecentPrioritizationFees",
+      params: [[account]],
+    })),
+  ];
+  const results = await rpc.batch(requests);
+  const [fees, currentSlot, ...accountFees] = await Promise.all([
+    batchValue(rpc, requests[0], results[0]),
+    batchValue(rpc, requests[1], results[1]),
+    ...perAccount.map((_, i) => batchValue(rpc, requests[3 + i], results[3 + i])),
+  ]);
 
+  const { low, average, high, samples } = priorityFeeTiers(fees as PrioritizationFees);
+  const solanaAccountFees =
+    accounts.length === 0
+      ? null
+      : accounts.length === 1
+      ? [{ account: accounts[0], low, average, high, samples }]
+      : perAccount.map((account, i) => ({
+          account,
+          ...priorityFeeTiers(accountFees[i] as PrioritizationFees),
+        }));
+
+  let tps = 0;
   try {
-    const res = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=usd`
-    );
-    const data = await res.json();
-    if (!data.status) {
-      for (const tokenId of uniqueTokens) {
-        if (data[tokenId]?.usd) {
-          priceCache[tokenId] = data[tokenId].usd;
-        }
-      }
-      lastPriceFetch = Date.now();
+    const perfSamples = (await batchValue(rpc, requests[2], results[2])) as PerformanceSample[];
+    if (perfSamples.length > 0) {
+      tps = Math.round(perfSamples[0].numTransactions / perfSamples[0].samplePeriodSecs);
     }
   } catch {
-    // Use existing cache / fallback prices
+    // TPS unavailable
   }
 
-  return priceCache;
+  return {
+    chain: chain.id,
+    blockNumber: currentSlot as number,
+    low,
+    average,
+    high,
+    baseFee: SOLANA_BASE_FEE_LAMPORTS,
+    priorityFees: null,
+    solanaAccountFees,
+    timestamp: Date.now(),
+    networkStats: {
+      txCount: tps,
+      gasUsed: 0,
+      gasLimit: 0,
+      utilization: 0,
+    },
+  };
+}
+
+// Confirmation targets in blocks: high, average and low tiers, then ~1 day
+const BITCOIN_FEE_TARGETS = [1, 3, 6, 144];
+const BITCOIN_BLOCK_VBYTES = 1_000_000;
+
+interface BitcoinMempoolInfo {
+  size?: number;
+  bytes?: number;
+  mempoolminfee?: number;
+  minrelaytxfee?: number;
 }
 
-async function fetchGasFromRpc(
-  rpcUrl: string,
-  isEIP1559: boolean
-): Promise<number> {
-  const gasPrice = await rpcCall(rpcUrl, "eth_gasPrice");
-  const gasPriceGwei = parseInt(gasPrice, 16) / 1e9;
-  let avgGwei = gasPriceGwei;
+interface BitcoinFeeEstimate {
+  feerate?: number;
+  errors?: string[];
+}
 
-  if (isEIP1559) {
+// Bitcoin Core reports fee rates in BTC/kvB
+function satPerVb(btcPerKvb: number): number {
+  return (btcPerKvb * 1e8) / 1000;
+}
+
+async function fetchBitcoinGasData(
+  chain: ChainConfig,
+  rpc: RpcClient
+): Promise<GasData> {
+  const requests: RpcRequest[] = [
+    { method: "getblockcount" },
+    { method: "getmempoolinfo" },
+    ...BITCOIN_FEE_TARGETS.map((blocks) => ({
+      method: "estimatesmartfee",
+      params: [blocks],
+    })),
+  ];
+  const results = await rpc.batch(requests);
+  const [blockCount, mempoolInfo] = await Promise.all(
+    [0, 1].map((i) => batchValue(rpc, requests[i], results[i]))
+  );
+  const mempool = mempoolInfo as BitcoinMempoolInfo;
+  const mempoolMinFee = satPerVb(
+    Math.max(mempool.mempoolminfee ?? 0, mempool.minrelaytxfee ?? 0)
+  );
+
+  const estimates = (await Promise.all(
+    BITCOIN_FEE_TARGETS.map((_, i) =>
+      batchValue(rpc, requests[i + 2], results[i + 2]).catch(() => null)
+    )
+  )) as (BitcoinFeeEstimate | null)[];
+  const targets: BitcoinFees["targets"] = [];
+  estimates.forEach((estimate, i) => {
+    // Nodes without enough history answer with `errors` and no feerate
+    if (typeof estimate?.feerate !== "number") return;
+    targets.push({
+      blocks: BITCOIN_FEE_TARGETS[i],
+      feeRate: Math.max(satPerVb(estimate.feerate), mempoolMinFee),
+    });
+  });
+  const rateFor = (blocks: number) =>
+    targets.find((t) => t.blocks === blocks)?.feeRate ?? mempoolMinFee;
+
+  const low = rateFor(6);
+  const average = Math.max(rateFor(3), low);
+  const high = Math.max(rateFor(1), average);
+  const mempoolVsize = mempool.bytes ?? 0;
+
+  return {
+    chain: chain.id,
+    blockNumber: blockCount as number,
+    low,
+    average,
+    high,
+    baseFee: mempoolMinFee,
+    priorityFees: null,
+    bitcoinFees: {
+      targets,
+      mempoolMinFee,
+      mempoolTxCount: mempool.size ?? 0,
+      mempoolVsize,
+    },
+    timestamp: Date.now(),
+    networkStats: {
+      txCount: mempool.size ?? 0,
+      gasUsed: mempoolVsize,
+      gasLimit: BITCOIN_BLOCK_VBYTES,
+      // How much of the next block the backlog would fill
+      utilization: Math.min(mempoolVsize / BITCOIN_BLOCK_VBYTES, 1) * 100,
+    },
+  };
+}
+
+interface StarknetBlockPrice {
+  price_in_wei: string;
+  price_in_fri: string;
+}
+
+interface StarknetBlock {
+  block_number: number;
+  l1_gas_price: StarknetBlockPrice;
+  l1_data_gas_price: StarknetBlockPrice;
+  // Starknet 0.13.3 and later
+  l2_gas_price?: StarknetBlockPrice;
+  l1_da_mode?: string;
+  transactions?: string[];
+}
+
+function starknetPrice(price: StarknetBlockPrice): StarknetResourcePrice {
+  return {
+    wei: parseInt(price.price_in_wei, 16) / 1e9,
+    fri: parseInt(price.price_in_fri, 16) / 1e9,
+  };
+}
+
+// Starknet has no eth_gasPrice or tip market: every transaction in a block
+// pays the block's resource prices, so the tiers collapse to the L2 gas price
+// the catalog's execution cost is priced at
+async function fetchStarknetGasData(
+  chain: ChainConfig,
+  rpc: RpcClient
+): Promise<GasData> {
+  const block = (await rpc.call("starknet_getBlockWithTxHashes", ["latest"])) as StarknetBlock;
+  const starknetFees: StarknetFees = {
+    l1GasPrice: starknetPrice(block.l1_gas_price),
+    l1DataGasPrice: starknetPrice(block.l1_data_gas_price),
+    l2GasPrice: block.l2_gas_price ? starknetPrice(block.l2_gas_price) : null,
+    l1DaMode: block.l1_da_mode ?? null,
+  };
+  const l2GasPrice = starknetL2GasPrice(starknetFees, "fri");
+
+  return {
+    chain: chain.id,
+    blockNumber: block.block_number,
+    low: l2GasPrice,
+    average: l2GasPrice,
+    high: l2GasPrice,
+    baseFee: null,
+    priorityFees: null,
+    starknetFees,
+    timestamp: Date.now(),
+    networkStats: {
+      txCount: block.transactions?.length ?? 0,
+      gasUsed: 0,
+      gasLimit: 0,
+      utilization: 0,
+    },
+  };
+}
+
+// Any valid address works for reading network-wide staking totals
+const TRON_RESOURCE_ADDRESS = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+
+// TronGrid /wallet/* responses. Each is narrowed where it's read, so a changed
+// API fails the fetch instead of pricing at 0.
+interface TronBlock {
+  block_header: { raw_data: { number: number } };
+}
+
+interface TronChainParameters {
+  // Protobuf drops zero values, so `value` is absent for parameters set to 0
+  chainParameter: { key: string; value?: number }[];
+}
+
+interface TronEnergyPrices {
+  // "since:price" pairs, oldest first
+  prices: string;
+}
+
+interface TronAccountResource {
+  TotalEnergyLimit?: number;
+  TotalEnergyWeight?: number;
+  TotalNetLimit?: number;
+  TotalNetWeight?: number;
+}
+
+function unexpectedTron(path: string, value: unknown): RpcResponseError {
+  return new RpcResponseError(`Unexpected ${path} response: ${JSON.stringify(value)?.slice(0, 100)}`);
+}
+
+// wallet/getblock and wallet/getnowblock share the header shape
+export function tronBlockNumber(value: unknown): number {
+  const header = isRecord(value) ? (value as Partial<TronBlock>).block_header : undefined;
+  const number = isRecord(header) && isRecord(header.raw_data) ? header.raw_data.number : undefined;
+  if (typeof number !== "number") throw unexpectedTron("wallet/getblock", value);
+  return number;
+}
+
+function tronChainParameters(value: unknown): TronChainParameters {
+  const list = isRecord(value) ? value.chainParameter : undefined;
+  if (
+    !Array.isArray(list) ||
+    !list.every(
+      (p) =>
+        isRecord(p) &&
+        typeof p.key === "string" &&
+        (p.value === undefined || typeof p.value === "number")
+    )
+  ) {
+    throw unexpectedTron("wallet/getchainparameters", value);
+  }
+  return { chainParameter: list };
+}
+
+// The current energy price is the last "since:price" pair
+function tronEnergyPrice(value: unknown): number {
+  const prices = isRecord(value) ? (value as Partial<TronEnergyPrices>).prices : undefined;
+  const latest = typeof prices === "string" ? prices.split(",").pop()?.split(":")[1] : undefined;
+  if (!latest || !/^\d+$/.test(latest)) throw unexpectedTron("wallet/getenergyprices", value);
+  return parseInt(latest, 10);
+}
+
+function tronAccountResource(value: unknown): TronAccountResource {
+  const keys = ["TotalEnergyLimit", "TotalEnergyWeight", "TotalNetLimit", "TotalNetWeight"] as const;
+  if (!isRecord(value) || keys.some((k) => value[k] !== undefined && typeof value[k] !== "number")) {
+    throw unexpectedTron("wallet/getaccountresource", value);
+  }
+  return value as TronAccountResource;
+}
+
+// Tron has no fee market: energy and bandwidth have protocol-set prices in
+// sun, so the tiers collapse to the energy price
+async function fetchTronGasData(
+  chain: ChainConfig,
+  rpc: RpcClient
+): Promise<GasData> {
+  const [blockNumber, parameters, currentEnergyPrice, resources] = await Promise.all([
+    rpc.run((url) => restCall(url, "wallet/getblock", { detail: false })).then(tronBlockNumber),
+    rpc.run((url) => restCall(url, "wallet/getchainparameters")).then(tronChainParameters),
+    // Both optional: chain parameters carry the energy price too, and staking
+    // yields are left unknown
+    rpc
+      .run((url) => restCall(url, "wallet/getenergyprices"))
+      .then(tronEnergyPrice)
+      .catch(() => null),
+    rpc
+      .run((url) =>
+        restCall(url, "wallet/getaccountresource", {
+          address: TRON_RESOURCE_ADDRESS,
+          visible: true,
+        })
+      )
+      .then(tronAccountResource)
+      .catch(() => null),
+  ]);
+
+  const param = (key: string) => {
+    const entry = parameters.chainParameter.find((p) => p.key === key);
+    if (!entry) throw new RpcResponseError(`wallet/getchainparameters has no ${key}`);
+    return entry.value ?? 0;
+  };
+  const ratio = (limit?: number, weight?: number) =>
+    limit && weight ? limit / weight : null;
+
+  const energyPrice = currentEnergyPrice ?? param("getEnergyFee");
+  const tronFees: TronFees = {
+    energyPrice,
+    bandwidthPrice: param("getTransactionFee"),
+    freeBandwidth: param("getFreeNetLimit"),
+    energyPerTrx: ratio(resources?.TotalEnergyLimit, resources?.TotalEnergyWeight),
+    bandwidthPerTrx: ratio(resources?.TotalNetLimit, resources?.TotalNetWeight),
+  };
+
+  return {
+    chain: chain.id,
+    blockNumber,
+    low: energyPrice,
+    average: energyPrice,
+    high: energyPrice,
+    baseFee: null,
+    priorityFees: null,
+    tronFees,
+    timestamp: Date.now(),
+    networkStats: {
+      txCount: 0,
+      gasUsed: 0,
+      gasLimit: 0,
+      utilization: 0,
+    },
+  };
+}
+
+async function fetchEvmGasData(
+  chain: ChainConfig,
+  rpc: RpcClient
+): Promise<GasData> {
+  const requests: RpcRequest[] = [
+    { method: "eth_blockNumber" },
+    { method: "eth_gasPrice" },
+    { method: "eth_getBlockByNumber", params: ["latest", false] },
+    ...(chain.isEIP1559
+      ? [{ method: "eth_feeHistory", params: ["0x14", "latest", [10, 50, 90]] }]
+      : []),
+  ];
+  const [results, l1DataFee, zkSyncFee] = await Promise.all([
+    rpc.batch(requests),
+    rpc
+      .run((rpcUrl) => fetchL1DataFee(chain, rpcUrl, chainSwap(chain).txBytes))
+      .catch(() => null),
+    chain.rollupFeeModel === "zksync"
+      ? rpc.run(fetchZkSyncFee).catch(() => null)
+      : null,
+  ]);
+  const [blockHex, gasPrice, blockResult] = await Promise.all([
+    batchValue(rpc, requests[0], results[0]),
+    batchValue(rpc, requests[1], results[1]),
+    // Block stats are optional; without them utilization comes from fee history
+    batchValue(rpc, requests[2], results[2]).catch(() => null),
+  ]);
+  const block = blockResult as EvmBlock | null;
+
+  const blockNumber = parseInt(hexResult(blockHex), 16);
+  const currentGasPrice = parseInt(hexResult(gasPrice), 16) / 1e9;
+
+  let low = currentGasPrice * 0.85;
+  let average = currentGasPrice;
+  let high = currentGasPrice * 1.15;
+  let baseFee: number | null = null;
+  let priorityFees: PriorityFees | null = null;
+  let avgUtilization: number | null = null;
+
+  if (chain.isEIP1559) {
     try {
-      const feeHistory = await rpcCall(rpcUrl, "eth_feeHistory", [
-        "0xA",
-        "latest",
-        [50],
-      ]);
+      const feeHistory = (await batchValue(
+        rpc,
+        requests[3],
+        results[3]
+      )) as FeeHistory;
+
       const baseFees = feeHistory.baseFeePerGas.map(
         (f: string) => parseInt(f, 16) / 1e9
       );
-      const tips = feeHistory.reward.map(
-        (r: string[]) => parseInt(r[0], 16) / 1e9
-      );
       const latestBase = baseFees[baseFees.length - 1];
-      const avgTip =
-        tips.reduce((s: number, t: number) => s + t, 0) / tips.length;
-      const feeHistoryGwei = latestBase + avgTip;
-      avgGwei = Math.max(feeHistoryGwei, gasPriceGwei);
+
+      const rewards = feeHistory.reward.map((r: string[]) => ({
+        low: parseInt(r[0], 16) / 1e9,
+        mid: parseInt(r[1], 16) / 1e9,
+        high: parseInt(r[2], 16) / 1e9,
+      }));
+
+      const avgLowTip =
+        rewards.reduce((s, r) => s + r.low, 0) / rewards.length;
+      const avgMidTip =
+        rewards.reduce((s, r) => s + r.mid, 0) / rewards.length;
+      const avgHighTip =
+        rewards.reduce((s, r) => s + r.high, 0) / rewards.length;
+
+      low = Math.max(latestBase + avgLowTip, currentGasPrice * 0.85);
+      average = Math.max(latestBase + avgMidTip, currentGasPrice);
+      high = Math.max(latestBase + avgHighTip, currentGasPrice * 1.15);
+      baseFee = latestBase;
+      priorityFees = { p10: avgLowTip, p50: avgMidTip, p90: avgHighTip };
+
+      const gasUsedRatios = feeHistory.gasUsedRatio;
+      avgUtilization =
+        gasUsedRatios.reduce((s: number, r: number) => s + r, 0) /
+        gasUsedRatios.length;
     } catch {
-      // Use gasPrice fallback
+      // Fallback if eth_feeHistory not supported
     }
   }
 
-  return avgGwei;
+  // zkSync has no tip market; the operator's signed max fee is the fast tier
+  if (zkSyncFee) {
+    low = zkSyncFee.fairL2GasPrice;
+    high = Math.max(high, zkSyncFee.maxFeePerGas);
+  }
+
+  const txCount = block?.transactions?.length ?? 0;
+  const blockGasUsed = parseInt(block?.gasUsed ?? "0x0", 16);
+  const blockGasLimit = parseInt(block?.gasLimit ?? "0x0", 16);
+
+  return {
+    chain: chain.id,
+    blockNumber,
+    low,
+    average,
+    high,
+    baseFee,
+    priorityFees,
+    l1DataFee,
+    zkSyncFee,
+    timestamp: Date.now(),
+    networkStats: {
+      txCount,
+      gasUsed: blockGasUsed,
+      gasLimit: blockGasLimit,
+      utilization:
+        avgUtilization !== null
+          ? avgUtilization * 100
+          : blockGasLimit > 0
+          ? (blockGasUsed / blockGasLimit) * 100
+          : 0,
+    },
+  };
 }
 
-async function fetchSolanaGas(rpcUrl: string): Promise<number> {
-  const fees: Array<{ slot: number; prioritizationFee: number }> =
-    await rpcCall(rpcUrl, "getRecentPrioritizationFees", [[]]);
+// Every sub-call fails over independently across the given endpoints
+export async function fetchChainGasData(
+  chain: ChainConfig,
+  rpcUrls: string[],
+  options: GasFetchOptions = {}
+): Promise<GasData> {
+  const rpc = createRpcClient(rpcUrls);
+  const data =
+    chain.chainType === "solana"
+      ? await fetchSolanaGasData(chain, rpc, options.solanaAccounts)
+      : chain.chainType === "bitcoin"
+      ? await fetchBitcoinGasData(chain, rpc)
+      : chain.chainType === "starknet"
+      ? await fetchStarknetGasData(chain, rpc)
+      : chain.chainType === "tron"
+      ? await fetchTronGasData(chain, rpc)
+      : await fetchEvmGasData(chain, rpc);
+  return { ...data, rpcEndpoints: rpc.servedBy() };
+}
 
-  if (!fees || fees.length === 0) return 0;
+const CONSENSUS_DEFAULT = process.env.RPC_CONSENSUS === "1";
+const CONSENSUS_MAX_LAG = Number(process.env.RPC_CONSENSUS_MAX_LAG) || 10;
+const CONSENSUS_SPREAD_WARN = 0.1;
 
-  const nonZero = fees
-    .map((f) => f.prioritizationFee)
-    .filter((f) => f > 0)
-    .sort((a, b) => a - b);
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
 
-  if (nonZero.length === 0) return 0;
+function medianOrNull(values: (number | null | undefined)[]): number | null {
+  const present = values.filter((v): v is number => v != null);
+  return present.length > 0 ? median(present) : null;
+}
+
+// Queries every endpoint independently, drops the ones whose head trails the
+// highest by more than CONSENSUS_MAX_LAG, and takes the median of the rest
+export async function fetchConsensusGasData(
+  chain: ChainConfig,
+  rpcUrls: string[],
+  options: GasFetchOptions = {}
+): Promise<GasData> {
+  const settledReadings = await Promise.allSettled(
+    rpcUrls.map((url) => fetchChainGasData(chain, [url], options))
+  );
+  const readings = settledReadings
+    .filter((r): r is PromiseFulfilledResult<GasData> => r.status === "fulfilled")
+    .map((r) => r.value);
+  if (readings.length === 0) {
+    const failure = settledReadings.find(
+      (r): r is PromiseRejectedResult => r.status === "rejected"
+    );
+    throw failure?.reason ?? new Error("No RPC endpoints configured");
+  }
 
-  // Return median as the "average" priority fee in micro-lamports per CU
-  return nonZero[Math.floor(nonZero.length / 2)];
+  const head = Math.max(...readings.map((r) => r.blockNumber));
+  const fresh = readings.filter((r) => head - r.blockNumber <= CONSENSUS_MAX_LAG);
+  const stale = readings
+    .filter((r) => !fresh.includes(r))
+    .flatMap((r) => r.rpcEndpoints ?? []);
+
+  const averages = fresh.map((r) => r.average);
+  const average = median(averages);
+  const spread =
+    average > 0 ? (Math.max(...averages) - Math.min(...averages)) / average : 0;
+  // Block stats, rollup fees etc. come from the reading closest to the median
+  const representative = fresh.reduce((best, r) =>
+    Math.abs(r.average - average) < Math.abs(best.average - average) ? r : best
+  );
+
+  return {
+    ...representative,
+    blockNumber: head,
+    low: median(fresh.map((r) => r.low)),
+    average,
+    high: median(fresh.map((r) => r.high)),
+    baseFee: medianOrNull(fresh.map((r) => r.baseFee)),
+    rpcEndpoints: fresh.flatMap((r) => r.rpcEndpoints ?? []),
+    consensus: {
+      responded: readings.length,
+      agreeing: fresh.length,
+      stale,
+      spread,
+      lowConfidence:
+        spread > CONSENSUS_SPREAD_WARN ||
+        stale.length > 0 ||
+        (rpcUrls.length > 1 && fresh.length < 2),
+    },
+  };
 }
 
-export async function getChainGasGwei(
-  chain: (typeof chains)[number]
-): Promise<number | null> {
-  const rpcs = [chain.rpcUrl, ...(chain.rpcFallbacks ?? [])];
-  for (const rpc of rpcs) {
-    try {
-      if (chain.chainType === "solana") {
-        return await fetchSolanaGas(rpc);
-      }
-      return await fetchGasFromRpc(rpc, chain.isEIP1559 ?? true);
-    } catch {
-      // Try next RPC
-    }
+export function gasDataFetcher(consensus = CONSENSUS_DEFAULT) {
+  return consensus ? fetchConsensusGasData : fetchChainGasData;
+}
+
+export async function getChainGasData(
+  chain: ChainConfig,
+  consensus = CONSENSUS_DEFAULT
+): Promise<GasData | null> {
+  try {
+    return await gasDataFetcher(consensus)(chain, chainRpcUrls(chain));
+  } catch {
+    // Every endpoint failed
+    return null;
   }
-  return null;
+}
+
+function stakedSwap(gas: GasData): ChainGasResult["stakedSwap"] {
+  if (!gas.tronFees) return null;
+  const { stakeTrx } = tronCost(TRON_SWAP, gas.tronFees);
+  return stakeTrx === null ? null : { stakeAmount: stakeTrx };
 }
 
 export interface ChainGasResult {
@@ -142,28 +664,44 @@ export interface ChainGasResult {
   name: string;
   color: string;
   avgGwei: number;
+  lowGwei: number;
+  highGwei: number;
+  baseFee: number | null;
+  priorityFees: PriorityFees | null;
+  utilization: number;
+  blockNumber: number;
   swapCostUsd: number;
+  executionCostUsd: number;
+  dataFeeUsd: number;
   tokenPrice: number;
+  priceQuote: TokenPrice;
   nativeTokenSymbol: string;
   chainType?: string;
+  consensus: GasConsensus | null;
+  // Tron only: a swap paid with staked resources instead of burning TRX
+  stakedSwap: { stakeAmount: number } | null;
 }
 
-export async function fetchAllChainsGas(): Promise<{
+export async function fetchAllChainsGas(network: Network = "mainnet"): Promise<{
   timestamp: number;
   chains: ChainGasResult[];
 }> {
+  const chains = getChains(network);
   const [prices, ...gasResults] = await Promise.all([
-    fetchAllPrices(),
-    ...chains.map((chain) => getChainGasGwei(chain)),
+    getTokenPrices([...new Set(chains.map((c) => c.nativeToken))]),
+    ...chains.map((chain) => getChainGasData(chain)),
   ]);
 
   const data = chains
     .map((chain, i) => {
-      const avgGwei = gasResults[i];
-      if (avgGwei === null) return null;
+      const gas = gasResults[i];
+      if (gas === null) return null;
 
-      const tokenPrice = prices[chain.nativeToken] ?? 0;
-      let swapCostUsd: number;
+      const avgGwei = gas.average;
+      const priceQuote = prices[chain.nativeToken];
+      const tokenPrice = priceQuote.price;
+      let executionCostUsd: number;
+      let dataFeeUsd = 0;
 
       if (chain.chainType === "solana") {
         const sigs = chain.signaturesPerSwap ?? 1;
@@ -171,10 +709,28 @@ export async function fetchAllChainsGas(): Promise<{
         const baseLamports = SOLANA_BASE_FEE_LAMPORTS * sigs;
         const priorityLamports = (avgGwei * cu) / 1e6;
         const totalSol = (baseLamports + priorityLamports) / 1e9;
-        swapCostUsd = totalSol * tokenPrice;
+        executionCostUsd = totalSol * tokenPrice;
+      } else if (chain.chainType === "bitcoin") {
+        const vbytes = chain.vbytesPerSwap ?? BITCOIN_SWAP_VBYTES;
+        executionCostUsd = ((avgGwei * vbytes) / 1e8) * tokenPrice;
+      } else if (chain.chainType === "starknet") {
+        const fee = gas.starknetFees
+          ? starknetFee(STARKNET_SWAP, gas.starknetFees, "fri")
+          : { execution: 0, data: 0 };
+        executionCostUsd = fee.execution * tokenPrice;
+        dataFeeUsd = fee.data * tokenPrice;
+      } else if (chain.chainType === "tron") {
+        executionCostUsd = gas.tronFees
+          ? tronCost(TRON_SWAP, gas.tronFees).burnTrx * tokenPrice
+          : 0;
       } else {
-        const swapCostToken = (avgGwei * SWAP_GAS_LIMIT) / 1e9;
-        swapCostUsd = swapCostToken * tokenPrice;
+        const swap = chainSwap(chain);
+        const swapGas = swap.gasLimit * (swap.chainUnits ? 1 : gas.zkSyncFee?.gasUnitScale ?? 1);
+        const swapCostToken = (avgGwei * swapGas) / 1e9;
+        executionCostUsd = swapCostToken * tokenPrice;
+        if (gas.l1DataFee) {
+          dataFeeUsd = ((gas.l1DataFee.feePerByte * swap.txBytes) / 1e9) * tokenPrice;
+        }
       }
 
       return {
@@ -182,10 +738,21 @@ export async function fetchAllChainsGas(): Promise<{
         name: chain.name,
         color: chain.color,
         avgGwei,
-        swapCostUsd: Math.max(swapCostUsd, 0),
+        lowGwei: gas.low,
+        highGwei: gas.high,
+        baseFee: gas.baseFee,
+        priorityFees: gas.priorityFees ?? null,
+        utilization: gas.networkStats.utilization,
+        blockNumber: gas.blockNumber,
+        swapCostUsd: Math.max(executionCostUsd + dataFeeUsd, 0),
+        executionCostUsd: Math.max(executionCostUsd, 0),
+        dataFeeUsd,
         tokenPrice,
+        priceQuote,
         nativeTokenSymbol: chain.nativeTokenSymbol,
         chainType: chain.chainType as string | undefined,
+        consensus: gas.consensus ?? null,
+        stakedSwap: stakedSwap(gas),
       };
     })
     .filter((c) => c !== null) as ChainGasResult[];
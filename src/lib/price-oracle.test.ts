@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PriceQuote, PriceSource } from "@/lib/prices/types";
+
+// What each stubbed source answers: quotes, or an error to throw
+const { answers, stubSource } = vi.hoisted(() => {
+  const answers: Record<string, Record<string, PriceQuote> | Error> = {};
+  const stubSource = (name: string): PriceSource => ({
+    name,
+    async fetchPrices() {
+      const answer = answers[name];
+      if (answer instanceof Error) throw answer;
+      return answer ?? {};
+    },
+  });
+  return { answers, stubSource };
+});
+
+vi.mock("@/lib/prices/coingecko", () => ({
+  createCoinGeckoSource: () => stubSource("coingecko"),
+}));
+vi.mock("@/lib/prices/chainlink", () => ({
+  createChainlinkSource: () => stubSource("chainlink"),
+}));
+vi.mock("@/lib/prices/http", () => ({
+  createHttpPriceSource: (config: { name: string }) => stubSource(config.name),
+}));
+
+const NOW = Date.UTC(2026, 0, 1);
+
+// The oracle caches its sources and quotes, so every test loads a fresh copy
+async function loadOracle(env: Record<string, string>) {
+  for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+  vi.resetModules();
+  return import("@/lib/price-oracle");
+}
+
+describe("price oracle", () => {
+  afterEach(() => {
+    for (const name of Object.keys(answers)) delete answers[name];
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it("takes the first source that quotes under the priority strategy", async () => {
+    answers.coingecko = new Error("rate limited");
+    answers.chainlink = { ethereum: { price: 2100, updatedAt: NOW - 60_000 } };
+    answers.pyth = { ethereum: { price: 2000, updatedAt: NOW } };
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    const { getTokenPrice } = await loadOracle({
+      PRICE_STRATEGY: "priority",
+      PRICE_SOURCES: "coingecko,chainlink,http",
+      PRICE_HTTP_URL: "https://prices.test/{ids}",
+      PRICE_HTTP_NAME: "pyth",
+    });
+    const price = await getTokenPrice("ethereum");
+    expect(price).toMatchObject({ price: 2100, source: "chainlink", fallback: false });
+    expect(price.ageMs).toBe(60_000);
+  });
+
+  it("takes the median price and the oldest timestamp under the median strategy", async () => {
+    answers.coingecko = { ethereum: { price: 2000, updatedAt: NOW } };
+    answers.chainlink = { ethereum: { price: 2600, updatedAt: NOW - 300_000 } };
+    answers.http = { ethereum: { price: 2100, updatedAt: NOW - 60_000 } };
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    const { getTokenPrice } = await loadOracle({
+      PRICE_STRATEGY: "median",
+      PRICE_SOURCES: "coingecko,chainlink,http",
+      PRICE_HTTP_URL: "https://prices.test/{ids}",
+    });
+    expect(await getTokenPrice("ethereum")).toMatchObject({
+      price: 2100,
+      source: "median",
+      updatedAt: NOW - 300_000,
+    });
+  });
+
+  it("ignores quotes older than the maximum quote age", async () => {
+    // A frozen feed is a day and a bit behind
+    answers.chainlink = { ethereum: { price: 1800, updatedAt: NOW - 27 * 3600_000 } };
+    answers.coingecko = { ethereum: { price: 2000, updatedAt: NOW } };
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    const { getTokenPrice } = await loadOracle({
+      PRICE_STRATEGY: "median",
+      PRICE_SOURCES: "chainlink,coingecko",
+    });
+    expect(await getTokenPrice("ethereum")).toMatchObject({ price: 2000, source: "coingecko" });
+  });
+
+  it("keeps the previous quote when every source fails", async () => {
+    answers.coingecko = { ethereum: { price: 2000, updatedAt: NOW } };
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    const { getTokenPrice } = await loadOracle({ PRICE_SOURCES: "coingecko" });
+    await getTokenPrice("ethereum");
+
+    answers.coingecko = new Error("down");
+    vi.setSystemTime(NOW + 10 * 60_000);
+    expect(await getTokenPrice("ethereum")).toMatchObject({
+      price: 2000,
+      source: "coingecko",
+      ageMs: 10 * 60_000,
+      fallback: false,
+    });
+  });
+
+  it("flags the fallback table when no source has ever quoted", async () => {
+    answers.coingecko = new Error("down");
+    const { FALLBACK_PRICES, getTokenPrices } = await loadOracle({ PRICE_SOURCES: "coingecko" });
+    const prices = await getTokenPrices(["ethereum", "unlisted-token"]);
+    expect(prices.ethereum).toMatchObject({
+      price: FALLBACK_PRICES.ethereum,
+      source: "fallback",
+      fallback: true,
+      stale: true,
+    });
+    expect(prices["unlisted-token"]).toMatchObject({ price: 0, fallback: true });
+  });
+
+  it("rejects unknown PRICE_SOURCES entries on every call", async () => {
+    const { getTokenPrice, PriceConfigError } = await loadOracle({
+      PRICE_SOURCES: "coingecko,pyth",
+    });
+    await expect(getTokenPrice("ethereum")).rejects.toThrow(PriceConfigError);
+    await expect(getTokenPrice("ethereum")).rejects.toThrow(
+      'unknown PRICE_SOURCES entry "pyth" (expected coingecko, chainlink, http)'
+    );
+  });
+
+  it("rejects PRICE_HTTP_HEADERS that aren't an object of strings", async () => {
+    const env = { PRICE_SOURCES: "http", PRICE_HTTP_URL: "https://prices.test/{ids}" };
+    let oracle = await loadOracle({ ...env, PRICE_HTTP_HEADERS: "{bad json" });
+    await expect(oracle.getTokenPrice("ethereum")).rejects.toThrow("not valid JSON");
+
+    oracle = await loadOracle({ ...env, PRICE_HTTP_HEADERS: '{"x-api-key": 42}' });
+    await expect(oracle.getTokenPrice("ethereum")).rejects.toThrow("object of string values");
+  });
+});
+
+// latestRoundData returns five 32-byte words
+function roundData(answer: bigint, updatedAtSeconds: number): string {
+  const words = [BigInt(7), answer, BigInt(updatedAtSeconds), BigInt(updatedAtSeconds), BigInt(7)];
+  return "0x" + words.map((word) => word.toString(16).padStart(64, "0")).join("");
+}
+
+describe("Chainlink source", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("decodes latestRoundData with the feed's decimals", async () => {
+    const feeds = { ethereum: "0xfeed01", bitcoin: "0xfeed02", solana: "0xfeed03" };
+    const rounds: Record<string, string> = {
+      [feeds.ethereum]: roundData(BigInt(250012345678), 1_700_000_000),
+      [feeds.bitcoin]: roundData(BigInt(60_000) * BigInt(10) ** BigInt(18), 1_700_000_100),
+      // A feed with no answer yet is skipped
+      [feeds.solana]: roundData(BigInt(0), 1_700_000_000),
+    };
+    const decimals: Record<string, string> = {
+      [feeds.ethereum]: "0x8",
+      [feeds.bitcoin]: "0x12",
+      [feeds.solana]: "0x8",
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const body: { id: number; params: [{ to: string; data: string }] }[] = JSON.parse(
+          init.body
+        );
+        return new Response(
+          JSON.stringify(
+            body.map(({ id, params: [{ to, data }] }) => ({
+              jsonrpc: "2.0",
+              id,
+              result: data === "0x313ce567" ? decimals[to] : rounds[to],
+            }))
+          )
+        );
+      })
+    );
+
+    const { createChainlinkSource } =
+      await vi.importActual<typeof import("@/lib/prices/chainlink")>("@/lib/prices/chainlink");
+    const source = createChainlinkSource(["https://chainlink.test/decode"], feeds);
+    const quotes = await source.fetchPrices(["ethereum", "bitcoin", "solana", "tron"]);
+    expect(quotes).toEqual({
+      ethereum: { price: 2500.12345678, updatedAt: 1_700_000_000_000 },
+      bitcoin: { price: 60_000, updatedAt: 1_700_000_100_000 },
+    });
+  });
+});
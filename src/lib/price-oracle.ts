@@ -0,0 +1,195 @@
+import { getChain, getChains } from "@/lib/chain-registry";
+import { chainRpcUrls, isRecord } from "@/lib/rpc";
+import { createChainlinkSource } from "@/lib/prices/chainlink";
+import { createCoinGeckoSource } from "@/lib/prices/coingecko";
+import { createHttpPriceSource } from "@/lib/prices/http";
+import { PriceQuote, PriceSource } from "@/lib/prices/types";
+import { TokenPrice } from "@/lib/types";
+
+export type { PriceQuote, PriceSource } from "@/lib/prices/types";
+
+// Fallback prices (updated periodically as approximations)
+export const FALLBACK_PRICES: Record<string, number> = {
+  ethereum: 2500,
+  bitcoin: 60000,
+  "matic-network": 0.35,
+  binancecoin: 600,
+  "avalanche-2": 25,
+  "berachain-bera": 4,
+  xdai: 1.0,
+  mantle: 0.75,
+  celo: 0.5,
+  solana: 150,
+  monad: 0.5,
+  starknet: 0.15,
+  tron: 0.25,
+  "fiat:eur": 1.08,
+  "fiat:gbp": 1.27,
+  "fiat:jpy": 0.0067,
+};
+
+const PRICE_CACHE_TTL = 120_000;
+const PRICE_STALE_MS = Number(process.env.PRICE_STALE_MINUTES || 30) * 60_000;
+// Quotes older than this (e.g. a frozen Chainlink feed) are ignored outright
+const MAX_QUOTE_AGE_MS = 26 * 3600_000;
+
+type PriceStrategy = "priority" | "median";
+
+function priceStrategy(): PriceStrategy {
+  return process.env.PRICE_STRATEGY === "median" ? "median" : "priority";
+}
+
+export class PriceConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid price configuration: ${message}`);
+    this.name = "PriceConfigError";
+  }
+}
+
+function httpHeaders(raw: string | undefined): Record<string, string> | undefined {
+  if (!raw) return undefined;
+  let headers: unknown;
+  try {
+    headers = JSON.parse(raw);
+  } catch {
+    throw new PriceConfigError("PRICE_HTTP_HEADERS is not valid JSON");
+  }
+  if (!isRecord(headers) || Object.values(headers).some((v) => typeof v !== "string")) {
+    throw new PriceConfigError("PRICE_HTTP_HEADERS must be an object of string values");
+  }
+  return headers as Record<string, string>;
+}
+
+// PRICE_SOURCES orders the sources for the priority strategy
+function buildSources(): PriceSource[] {
+  const available: Record<string, () => PriceSource | null> = {
+    coingecko: createCoinGeckoSource,
+    chainlink: () => {
+      const ethereum = getChain("ethereum");
+      return ethereum ? createChainlinkSource(chainRpcUrls(ethereum)) : null;
+    },
+    http: () => {
+      const url = process.env.PRICE_HTTP_URL;
+      if (!url) return null;
+      return createHttpPriceSource({
+        name: process.env.PRICE_HTTP_NAME || "http",
+        url,
+        headers: httpHeaders(process.env.PRICE_HTTP_HEADERS),
+      });
+    },
+  };
+  const order = (process.env.PRICE_SOURCES || "coingecko,http,chainlink")
+    .split(",")
+    .map((name) => name.trim());
+  const unknown = order.filter((name) => !available[name]);
+  if (unknown.length > 0) {
+    throw new PriceConfigError(
+      `unknown PRICE_SOURCES entry ${unknown.map((n) => `"${n}"`).join(", ")} ` +
+        `(expected ${Object.keys(available).join(", ")})`
+    );
+  }
+  return order
+    .map((name) => available[name]())
+    .filter((source): source is PriceSource => source !== null);
+}
+
+let sources: PriceSource[] | null = null;
+
+// Throws PriceConfigError on every call until the configuration is fixed
+export function priceSources(): PriceSource[] {
+  sources ??= buildSources();
+  return sources;
+}
+
+const quoteCache: Record<string, { quote: PriceQuote; source: string }> = {};
+const lastAttempt: Record<string, number> = {};
+const inflight = new Map<string, Promise<void>>();
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function combine(
+  quotes: { source: string; quote: PriceQuote }[]
+): { quote: PriceQuote; source: string } | null {
+  if (quotes.length === 0) return null;
+  if (priceStrategy() === "priority" || quotes.length === 1) return quotes[0];
+  return {
+    source: "median",
+    quote: {
+      price: median(quotes.map((q) => q.quote.price)),
+      updatedAt: Math.min(...quotes.map((q) => q.quote.updatedAt)),
+    },
+  };
+}
+
+async function refresh(sources: PriceSource[], tokenIds: string[]) {
+  const results = await Promise.allSettled(
+    sources.map((source) => source.fetchPrices(tokenIds))
+  );
+  const now = Date.now();
+  for (const id of tokenIds) {
+    const quotes = results.flatMap((r, i) => {
+      const quote = r.status === "fulfilled" ? r.value[id] : undefined;
+      if (!quote || now - quote.updatedAt > MAX_QUOTE_AGE_MS) return [];
+      return [{ source: sources[i].name, quote }];
+    });
+    const combined = combine(quotes);
+    // Keep the previous quote when every source fails
+    if (combined) quoteCache[id] = combined;
+  }
+}
+
+function toTokenPrice(tokenId: string): TokenPrice {
+  const cached = quoteCache[tokenId];
+  if (!cached) {
+    return {
+      price: FALLBACK_PRICES[tokenId] ?? 0,
+      source: "fallback",
+      updatedAt: null,
+      ageMs: null,
+      fallback: true,
+      stale: true,
+    };
+  }
+  const ageMs = Math.max(Date.now() - cached.quote.updatedAt, 0);
+  return {
+    price: cached.quote.price,
+    source: cached.source,
+    updatedAt: cached.quote.updatedAt,
+    ageMs,
+    fallback: false,
+    stale: ageMs > PRICE_STALE_MS,
+  };
+}
+
+export async function getTokenPrices(
+  tokenIds: string[] = [...new Set(getChains().map((c) => c.nativeToken))]
+): Promise<Record<string, TokenPrice>> {
+  // Built outside the refresh so a configuration error reaches the caller
+  const configured = priceSources();
+  const now = Date.now();
+  const due = tokenIds.filter(
+    (id) => now - (lastAttempt[id] ?? 0) >= PRICE_CACHE_TTL
+  );
+  if (due.length > 0) {
+    const key = due.sort().join(",");
+    let pending = inflight.get(key);
+    if (!pending) {
+      // Failing sources are settled inside; the cache or fallback table covers them
+      pending = refresh(configured, due).finally(() => {
+        for (const id of due) lastAttempt[id] = Date.now();
+        inflight.delete(key);
+      });
+      inflight.set(key, pending);
+    }
+    await pending;
+  }
+  return Object.fromEntries(tokenIds.map((id) => [id, toTokenPrice(id)]));
+}
+
+export async function getTokenPrice(tokenId: string): Promise<TokenPrice> {
+  return (await getTokenPrices([tokenId]))[tokenId];
+}
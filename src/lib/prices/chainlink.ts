@@ -0,0 +1,62 @@
+import { createRpcClient, ethCallRequest, RpcRequest } from "@/lib/rpc";
+import { PriceQuote, PriceSource } from "@/lib/prices/types";
+
+const SELECTORS = {
+  latestRoundData: "0xfeaf968c",
+  decimals: "0x313ce567",
+};
+
+// USD aggregator proxies on Ethereum mainnet, keyed by CoinGecko id
+export const CHAINLINK_USD_FEEDS: Record<string, string> = {
+  ethereum: "0x5f4ec3df9cbd43714fe2740f5e3616155c5b8419",
+  bitcoin: "0xf4030086522a5beea4988f8ca5b36dbc97bee88c",
+  binancecoin: "0x14e613ac84a31f709eadbdf89c6cc390fdc9540a",
+  "avalanche-2": "0xff3eeb22b5e3de6e705b44749c2559d704923fd7",
+  "matic-network": "0x7bac85a8a13a4bcd8abb3eb7d6b4d632c5a57676",
+  solana: "0x4ffc43a60e009b551865a93d232e33fce9f01507",
+  // xDAI is bridged DAI
+  xdai: "0xaed0c38402a5d19df6e4c03f4e2dced6e29c1ee9",
+  "fiat:eur": "0xb49f677943bc038e9857d61e7d053caa2c1734c1",
+  "fiat:gbp": "0x5c0ab2d9b5a7ed9f470386e82bb36a3613cdd4b5",
+  "fiat:jpy": "0xbce206cae7f0ec07b545edde332a47c2f75bbeb3",
+};
+
+function wordAt(hex: string, index: number): bigint {
+  return BigInt("0x" + hex.slice(2 + index * 64, 2 + (index + 1) * 64));
+}
+
+export function createChainlinkSource(
+  rpcUrls: string[],
+  feeds: Record<string, string> = CHAINLINK_USD_FEEDS
+): PriceSource {
+  return {
+    name: "chainlink",
+    async fetchPrices(tokenIds) {
+      const ids = tokenIds.filter((id) => feeds[id]);
+      if (ids.length === 0) return {};
+
+      const requests: RpcRequest[] = ids.flatMap((id) => [
+        ethCallRequest(feeds[id], SELECTORS.latestRoundData),
+        ethCallRequest(feeds[id], SELECTORS.decimals),
+      ]);
+      const results = await createRpcClient(rpcUrls).batch(requests);
+
+      const quotes: Record<string, PriceQuote> = {};
+      ids.forEach((id, i) => {
+        const round = results[i * 2];
+        const decimals = results[i * 2 + 1];
+        if (round.status !== "fulfilled" || decimals.status !== "fulfilled") return;
+        if (typeof round.value !== "string" || typeof decimals.value !== "string") return;
+        // latestRoundData: (roundId, answer, startedAt, updatedAt, answeredInRound)
+        const answer = wordAt(round.value, 1);
+        const updatedAt = Number(wordAt(round.value, 3)) * 1000;
+        if (answer <= BigInt(0) || updatedAt === 0) return;
+        quotes[id] = {
+          price: Number(answer) / 10 ** parseInt(decimals.value, 16),
+          updatedAt,
+        };
+      });
+      return quotes;
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { PriceQuote, PriceSource } from "@/lib/prices/types";
+
+const FIAT_PREFIX = "fiat:";
+
+export function createCoinGeckoSource(): PriceSource {
+  return {
+    name: "coingecko",
+    async fetchPrices(tokenIds) {
+      // Fiat ids ("fiat:eur") are priced through BTC's quote in both currencies
+      const fiats = tokenIds
+        .filter((id) => id.startsWith(FIAT_PREFIX))
+        .map((id) => id.slice(FIAT_PREFIX.length));
+      const coins = tokenIds.filter((id) => !id.startsWith(FIAT_PREFIX));
+      const ids = fiats.length > 0 ? [...new Set([...coins, "bitcoin"])] : coins;
+      const vs = ["usd", ...fiats].join(",");
+
+      const res = await fetch(
+        `https://api.coingecko.com/api/v3/simple/price?ids=${ids.join(",")}&vs_currencies=${vs}&include_last_updated_at=true`
+      );
+      const data = await res.json();
+      // Rate-limit and error responses carry a `status` object instead of prices
+      if (!res.ok || data.status) {
+        throw new Error(data.status?.error_message ?? `CoinGecko HTTP ${res.status}`);
+      }
+
+      const quotes: Record<string, PriceQuote> = {};
+      const updatedAtOf = (id: string) =>
+        data[id]?.last_updated_at ? data[id].last_updated_at * 1000 : Date.now();
+      for (const id of coins) {
+        const usd = data[id]?.usd;
+        if (typeof usd !== "number") continue;
+        quotes[id] = { price: usd, updatedAt: updatedAtOf(id) };
+      }
+      for (const fiat of fiats) {
+        const btcUsd = data.bitcoin?.usd;
+        const btcFiat = data.bitcoin?.[fiat];
+        if (typeof btcUsd !== "number" || typeof btcFiat !== "number" || btcFiat <= 0) continue;
+        quotes[FIAT_PREFIX + fiat] = {
+          price: btcUsd / btcFiat,
+          updatedAt: updatedAtOf("bitcoin"),
+        };
+      }
+      return quotes;
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { isRecord } from "@/lib/rpc";
+import { PriceQuote, PriceSource } from "@/lib/prices/types";
+
+export interface HttpPriceSourceConfig {
+  name: string;
+  // `{ids}` is replaced with the comma-separated CoinGecko token ids
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// Any provider that answers `{ [id]: number }` or CoinGecko-style
+// `{ [id]: { usd, last_updated_at? } }`
+export function createHttpPriceSource(config: HttpPriceSourceConfig): PriceSource {
+  return {
+    name: config.name,
+    async fetchPrices(tokenIds) {
+      const url = config.url.replace("{ids}", encodeURIComponent(tokenIds.join(",")));
+      const res = await fetch(url, { headers: config.headers });
+      if (!res.ok) throw new Error(`${config.name} HTTP ${res.status}`);
+      const data: unknown = await res.json();
+      if (!isRecord(data)) throw new Error(`${config.name} did not answer with an object`);
+
+      const quotes: Record<string, PriceQuote> = {};
+      for (const id of tokenIds) {
+        const entry = data[id];
+        const price = isRecord(entry) ? entry.usd : entry;
+        if (typeof price !== "number" || price <= 0) continue;
+        const updatedAt = isRecord(entry) ? entry.last_updated_at : null;
+        quotes[id] = {
+          price,
+          updatedAt:
+            typeof updatedAt === "number" && updatedAt > 0 ? updatedAt * 1000 : Date.now(),
+        };
+      }
+      return quotes;
+    },
+  };
+}
@@ -0,0 +1,13 @@
+export interface PriceQuote {
+  price: number;
+  // When the source last observed the price (ms), not when we fetched it
+  updatedAt: number;
+}
+
+// Token ids are CoinGecko ids; fiat currencies use "fiat:<iso code>" and are
+// priced as USD per unit of that currency
+export interface PriceSource {
+  name: string;
+  // Quotes for whichever of the tokens the source knows; missing ids are skipped
+  fetchPrices(tokenIds: string[]): Promise<Record<string, PriceQuote>>;
+}
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CHAINS } from "@/lib/chains";
+import { fetchL1DataFee, fetchZkSyncFee } from "@/lib/rollup-fees";
+
+const chain = (id: string) => DEFAULT_CHAINS.find((c) => c.id === id)!;
+const linea = chain("linea");
+
+interface RpcBody {
+  id: number;
+  method: string;
+  params: { data?: string }[];
+}
+
+const gwei = (n: number) => "0x" + Math.round(n * 1e9).toString(16);
+
+// Answers single and batched calls; a thrown handler becomes an RPC error (a revert)
+function mockRpc(handler: (r: RpcBody) => unknown) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: { body: string }) => {
+      const body: RpcBody | RpcBody[] = JSON.parse(init.body);
+      const answer = (r: RpcBody) => {
+        try {
+          return { jsonrpc: "2.0", id: r.id, result: handler(r) };
+        } catch (error) {
+          return { jsonrpc: "2.0", id: r.id, error: { code: 3, message: String(error) } };
+        }
+      };
+      return new Response(JSON.stringify(Array.isArray(body) ? body.map(answer) : answer(body)));
+    })
+  );
+}
+
+// Answers eth_call by the 4-byte selector it's sent
+function mockCalls(results: Record<string, string>) {
+  mockRpc((r) => {
+    const selector = (r.params[0].data ?? "").slice(0, 10);
+    if (!(selector in results)) throw new Error("execution reverted");
+    return results[selector];
+  });
+}
+
+const uint = (n: number) => "0x" + n.toString(16).padStart(64, "0");
+
+// Answers linea_estimateGas with a fixed tip plus a surcharge per calldata byte
+function mockLinea(tip: number, surchargePerByte: number) {
+  mockRpc((r) => {
+    const bytes = ((r.params[0].data ?? "0x").length - 2) / 2;
+    return {
+      gasLimit: "0x5208",
+      baseFeePerGas: gwei(0.007),
+      priorityFeePerGas: gwei(tip + bytes * surchargePerByte),
+    };
+  });
+}
+
+describe("Linea L1 data fee", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("does not charge the ordinary tip as a data fee", async () => {
+    mockLinea(0.05, 0);
+    const fee = await fetchL1DataFee(linea, "https://linea.test/no-surcharge", 110);
+    expect(fee?.feePerByte).toBe(0);
+  });
+
+  it("prices only the calldata surcharge", async () => {
+    mockLinea(0.05, 0.0001);
+    const fee = await fetchL1DataFee(linea, "https://linea.test/surcharge", 110);
+    // 110 bytes * 0.0001 gwei surcharge on each of 21000 gas, spread per byte
+    expect(fee!.feePerByte * 110).toBeCloseTo(110 * 0.0001 * 21000, 6);
+  });
+});
+
+describe("OP Stack and Scroll L1 data fee", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("spreads getL1Fee over the transaction bytes", async () => {
+    mockCalls({
+      "0x519b4bd3": uint(20e9), // l1BaseFee()
+      "0x49948e0e": uint(11_000e9), // getL1Fee(bytes)
+      "0xf8206140": uint(1e9), // blobBaseFee()
+      "0xc5985918": uint(7600), // baseFeeScalar()
+      "0x68d5dca6": uint(862_000), // blobBaseFeeScalar()
+    });
+    const fee = await fetchL1DataFee(chain("optimism"), "https://op.test/ecotone", 110);
+    expect(fee).toEqual({
+      l1BaseFee: 20,
+      blobBaseFee: 1,
+      baseFeeScalar: 7600,
+      blobBaseFeeScalar: 862_000,
+      feePerByte: 100,
+    });
+  });
+
+  it("leaves the blob fields empty before Ecotone", async () => {
+    mockCalls({ "0x519b4bd3": uint(20e9), "0x49948e0e": uint(5_500e9) });
+    const fee = await fetchL1DataFee(chain("base"), "https://op.test/bedrock", 110);
+    expect(fee).toEqual({
+      l1BaseFee: 20,
+      blobBaseFee: null,
+      baseFeeScalar: null,
+      blobBaseFeeScalar: null,
+      feePerByte: 50,
+    });
+  });
+
+  it("reads Scroll's own blob-era getters", async () => {
+    mockCalls({
+      "0x519b4bd3": uint(15e9), // l1BaseFee()
+      "0x49948e0e": uint(2_200e9), // getL1Fee(bytes)
+      "0x84189161": uint(2e9), // l1BlobBaseFee()
+      "0x23e524ac": uint(1000), // commitScalar()
+      "0x6a5e67e5": uint(2000), // blobScalar()
+    });
+    const fee = await fetchL1DataFee(chain("scroll"), "https://scroll.test/curie", 110);
+    expect(fee).toEqual({
+      l1BaseFee: 15,
+      blobBaseFee: 2,
+      baseFeeScalar: 1000,
+      blobBaseFeeScalar: 2000,
+      feePerByte: 20,
+    });
+  });
+});
+
+describe("Arbitrum L1 data fee", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("prices calldata at the perL1CalldataByte word of getPricesInWei", async () => {
+    // perL2Tx, perL1CalldataByte, perStorageAllocation, then the three ArbGas prices
+    const prices = [3_000e9, 32e9, 2_000e9, 0.01e9, 0, 0.01e9];
+    mockCalls({
+      "0x41b247a8": "0x" + prices.map((n) => uint(n).slice(2)).join(""),
+      "0xf5d6ded7": uint(2e9), // getL1BaseFeeEstimate()
+    });
+    const fee = await fetchL1DataFee(chain("arbitrum"), "https://arbitrum.test/prices", 110);
+    expect(fee).toEqual({
+      l1BaseFee: 2,
+      blobBaseFee: null,
+      baseFeeScalar: null,
+      blobBaseFeeScalar: null,
+      feePerByte: 32,
+    });
+  });
+});
+
+describe("zkSync fee", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // A transfer estimated at twice the catalog's 65000 gas
+  const estimate = {
+    gas_limit: "0x" + (130_000).toString(16),
+    max_fee_per_gas: gwei(0.25),
+    gas_per_pubdata_limit: "0xc350",
+  };
+  const params = { config: { minimal_l2_gas_price: 45_250_000 }, l1_gas_price: 20e9 };
+
+  function mockZkSync(feeParams: unknown) {
+    mockRpc((r) => (r.method === "zks_estimateFee" ? estimate : feeParams));
+  }
+
+  it("scales catalog gas by the zks_estimateFee gas limit", async () => {
+    mockZkSync({ V2: params });
+    expect(await fetchZkSyncFee("https://zksync.test/v2")).toEqual({
+      l1GasPrice: 20,
+      fairL2GasPrice: 0.04525,
+      maxFeePerGas: 0.25,
+      gasPerPubdata: 50_000,
+      gasUnitScale: 2,
+    });
+  });
+
+  it("falls back to V1 fee params", async () => {
+    mockZkSync({ V1: { ...params, l1_gas_price: 30e9 } });
+    const fee = await fetchZkSyncFee("https://zksync.test/v1");
+    expect(fee.l1GasPrice).toBe(30);
+    expect(fee.fairL2GasPrice).toBe(0.04525);
+  });
+
+  it("uses the signed max fee when neither version is present", async () => {
+    mockZkSync({});
+    const fee = await fetchZkSyncFee("https://zksync.test/unversioned");
+    expect(fee.l1GasPrice).toBe(0);
+    expect(fee.fairL2GasPrice).toBe(0.25);
+  });
+});
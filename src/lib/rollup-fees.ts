@@ -0,0 +1,245 @@
+import { ChainConfig, COMMON_TRANSACTIONS } from "@/lib/chains";
+import { L1DataFee, ZkSyncFee } from "@/lib/types";
+import { ethCallRequest, hexResult, rpcBatch, settled } from "@/lib/rpc";
+
+// Arbitrum ArbGasInfo precompile
+const ARB_GAS_INFO = "0x000000000000000000000000000000000000006C";
+
+// Bridged USDC on zkSync Era, used as the calibration transfer target
+const ZKSYNC_USDC = "0x3355df6D4c9C3035724Fd0e3914dE96A5a83aaf4";
+
+// Placeholder accounts for fee estimation calls
+const ESTIMATE_SENDER = "0x1111111111111111111111111111111111111111";
+const ESTIMATE_RECIPIENT = "0x2222222222222222222222222222222222222222";
+
+// OP Stack GasPriceOracle and Scroll L1GasPriceOracle predeploys share the
+// getL1Fee(bytes) / l1BaseFee() interface but name their blob-era getters
+// differently
+interface L1FeeOracle {
+  address: string;
+  blobBaseFee: string;
+  baseFeeScalar: string;
+  blobBaseFeeScalar: string;
+}
+
+const OP_STACK_ORACLE: L1FeeOracle = {
+  address: "0x420000000000000000000000000000000000000F",
+  blobBaseFee: "0xf8206140", // blobBaseFee()
+  baseFeeScalar: "0xc5985918", // baseFeeScalar()
+  blobBaseFeeScalar: "0x68d5dca6", // blobBaseFeeScalar()
+};
+
+const SCROLL_ORACLE: L1FeeOracle = {
+  address: "0x5300000000000000000000000000000000000002",
+  blobBaseFee: "0x84189161", // l1BlobBaseFee()
+  baseFeeScalar: "0x23e524ac", // commitScalar()
+  blobBaseFeeScalar: "0x6a5e67e5", // blobScalar()
+};
+
+const SELECTORS = {
+  l1BaseFee: "0x519b4bd3",
+  getL1Fee: "0x49948e0e",
+  getPricesInWei: "0x41b247a8",
+  getL1BaseFeeEstimate: "0xf5d6ded7",
+  transfer: "0xa9059cbb",
+};
+
+function word(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+function addressWord(address: string): string {
+  return address.slice(2).toLowerCase().padStart(64, "0");
+}
+
+function decodeWords(hex: string): number[] {
+  const body = hex.startsWith("0x") ? hex.slice(2) : hex;
+  const words: number[] = [];
+  for (let i = 0; i + 64 <= body.length; i += 64) {
+    words.push(parseInt(body.slice(i, i + 64), 16));
+  }
+  return words;
+}
+
+function encodeBytesArg(selector: string, hex: string): string {
+  const length = hex.length / 2;
+  const padded = hex.padEnd(Math.ceil(length / 32) * 64, "0");
+  return selector + word(32) + word(length) + padded;
+}
+
+// Pseudo-random filler so compression-aware oracles (Fjord and later) don't
+// see an unrealistically compressible payload
+export function representativeTx(bytes: number): string {
+  let seed = 0x2545f491;
+  let out = "";
+  for (let i = 0; i < bytes; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    out += ((seed >> 16) & 0xff).toString(16).padStart(2, "0");
+  }
+  return out;
+}
+
+async function fetchOracleL1Fee(
+  oracle: L1FeeOracle,
+  rpcUrl: string,
+  txBytes: number,
+  payload: string
+): Promise<L1DataFee> {
+  // Blob fee and scalars only exist after Ecotone / Curie (and not at all on Mantle)
+  const results = await rpcBatch(rpcUrl, [
+    ethCallRequest(oracle.address, SELECTORS.l1BaseFee),
+    ethCallRequest(oracle.address, oracle.blobBaseFee),
+    ethCallRequest(oracle.address, oracle.baseFeeScalar),
+    ethCallRequest(oracle.address, oracle.blobBaseFeeScalar),
+    ethCallRequest(
+      oracle.address,
+      encodeBytesArg(SELECTORS.getL1Fee, payload)
+    ),
+  ]);
+  const l1BaseFee = hexResult(settled(results[0]));
+  const l1Fee = hexResult(settled(results[4]));
+  const [blobBaseFee, baseFeeScalar, blobBaseFeeScalar] = results
+    .slice(1, 4)
+    .map((r) => (r.status === "fulfilled" ? hexResult(r.value) : null));
+
+  return {
+    l1BaseFee: parseInt(l1BaseFee, 16) / 1e9,
+    blobBaseFee: blobBaseFee ? parseInt(blobBaseFee, 16) / 1e9 : null,
+    baseFeeScalar: baseFeeScalar ? parseInt(baseFeeScalar, 16) : null,
+    blobBaseFeeScalar: blobBaseFeeScalar ? parseInt(blobBaseFeeScalar, 16) : null,
+    feePerByte: parseInt(l1Fee, 16) / 1e9 / txBytes,
+  };
+}
+
+async function fetchArbitrumL1Fee(rpcUrl: string): Promise<L1DataFee> {
+  // getPricesInWei returns (perL2Tx, perL1CalldataByte, perStorageAllocation,
+  // perArbGasBase, perArbGasCongestion, perArbGasTotal). ArbOS bills the
+  // calldata component as extra L2 gas units, which works out to this per-byte
+  // price regardless of the L2 tier.
+  const [prices, l1BaseFee] = (
+    await rpcBatch(rpcUrl, [
+      ethCallRequest(ARB_GAS_INFO, SELECTORS.getPricesInWei),
+      ethCallRequest(ARB_GAS_INFO, SELECTORS.getL1BaseFeeEstimate),
+    ])
+  ).map((r) => hexResult(settled(r)));
+  const [, perL1CalldataByte] = decodeWords(prices);
+
+  return {
+    l1BaseFee: parseInt(l1BaseFee, 16) / 1e9,
+    blobBaseFee: null,
+    baseFeeScalar: null,
+    blobBaseFeeScalar: null,
+    feePerByte: perL1CalldataByte / 1e9,
+  };
+}
+
+const ERC20_TRANSFER_GAS =
+  COMMON_TRANSACTIONS.find((tx) => tx.id === "erc20-transfer")?.gasLimit ?? 65000;
+
+interface ZkSyncFeeEstimate {
+  gas_limit: string;
+  max_fee_per_gas: string;
+  gas_per_pubdata_limit: string;
+}
+
+interface ZkSyncFeeParams {
+  V2?: {
+    config: { minimal_l2_gas_price: number };
+    l1_gas_price: number;
+  };
+  V1?: {
+    config: { minimal_l2_gas_price: number };
+    l1_gas_price: number;
+  };
+}
+
+export async function fetchZkSyncFee(rpcUrl: string): Promise<ZkSyncFee> {
+  // zkSync gas units include pubdata and aren't comparable to L1 gas, so we
+  // estimate a zero-value ERC-20 transfer and derive a scale for the catalog
+  const transferData =
+    SELECTORS.transfer + addressWord(ESTIMATE_RECIPIENT) + word(0);
+  const results = await rpcBatch(rpcUrl, [
+    {
+      method: "zks_estimateFee",
+      params: [{ from: ESTIMATE_SENDER, to: ZKSYNC_USDC, data: transferData }],
+    },
+    { method: "zks_getFeeParams" },
+  ]);
+  const estimate = settled(results[0]) as ZkSyncFeeEstimate;
+  const feeParams = settled(results[1]) as ZkSyncFeeParams;
+
+  const params = feeParams.V2 ?? feeParams.V1;
+  const maxFeePerGas = parseInt(estimate.max_fee_per_gas, 16) / 1e9;
+
+  return {
+    l1GasPrice: (params?.l1_gas_price ?? 0) / 1e9,
+    fairL2GasPrice: params
+      ? params.config.minimal_l2_gas_price / 1e9
+      : maxFeePerGas,
+    maxFeePerGas,
+    gasPerPubdata: parseInt(estimate.gas_per_pubdata_limit, 16),
+    gasUnitScale: parseInt(estimate.gas_limit, 16) / ERC20_TRANSFER_GAS,
+  };
+}
+
+interface LineaGasEstimate {
+  gasLimit: string;
+  baseFeePerGas: string;
+  priorityFeePerGas: string;
+}
+
+async function fetchLineaL1Fee(
+  rpcUrl: string,
+  txBytes: number,
+  payload: string
+): Promise<L1DataFee> {
+  // linea_estimateGas folds the compressed size of the transaction into its
+  // priority fee on top of the ordinary tip. Estimating the same transfer with
+  // and without calldata isolates the data-driven part of that fee.
+  const transfer = {
+    from: ESTIMATE_SENDER,
+    to: ESTIMATE_RECIPIENT,
+    value: "0x0",
+  };
+  const [withData, withoutData] = (
+    await rpcBatch(rpcUrl, [
+      { method: "linea_estimateGas", params: [{ ...transfer, data: "0x" + payload }] },
+      { method: "linea_estimateGas", params: [transfer] },
+    ])
+  ).map((r) => settled(r) as LineaGasEstimate);
+
+  const gasLimit = parseInt(withData.gasLimit, 16);
+  const surcharge =
+    (parseInt(withData.priorityFeePerGas, 16) -
+      parseInt(withoutData.priorityFeePerGas, 16)) /
+    1e9;
+
+  return {
+    l1BaseFee: null,
+    blobBaseFee: null,
+    baseFeeScalar: null,
+    blobBaseFeeScalar: null,
+    feePerByte: (Math.max(surcharge, 0) * gasLimit) / txBytes,
+  };
+}
+
+// payload is the hex (no 0x) the fee is priced on; defaults to filler of txBytes
+export async function fetchL1DataFee(
+  chain: ChainConfig,
+  rpcUrl: string,
+  txBytes: number,
+  payload = representativeTx(txBytes)
+): Promise<L1DataFee | null> {
+  switch (chain.rollupFeeModel) {
+    case "op-stack":
+      return fetchOracleL1Fee(OP_STACK_ORACLE, rpcUrl, txBytes, payload);
+    case "scroll":
+      return fetchOracleL1Fee(SCROLL_ORACLE, rpcUrl, txBytes, payload);
+    case "linea":
+      return fetchLineaL1Fee(rpcUrl, txBytes, payload);
+    case "arbitrum":
+      return fetchArbitrumL1Fee(rpcUrl);
+    default:
+      return null;
+  }
+}
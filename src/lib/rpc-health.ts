@@ -0,0 +1,175 @@
+import { getChains } from "@/lib/chain-registry";
+import { ChainConfig } from "@/lib/chains";
+import { tronBlockNumber } from "@/lib/gas-fetcher";
+import {
+  chainRpcUrls,
+  getEndpointStats,
+  hexResult,
+  isCircuitOpen,
+  restCall,
+  rpcBatch,
+  RpcRequest,
+  settled,
+} from "@/lib/rpc";
+
+const PROBE_TIMEOUT_MS = 5000;
+const PROBE_CACHE_MS = 15_000;
+const UPTIME_SAMPLES = 60;
+
+export interface EndpointHealth {
+  url: string;
+  primary: boolean;
+  ok: boolean;
+  latencyMs: number | null;
+  blockNumber: number | null;
+  // Blocks (or slots) behind the highest head seen across this chain's endpoints
+  blockLag: number | null;
+  // null when the chain has no configured chainId to compare against
+  chainIdMatch: boolean | null;
+  error: string | null;
+  // From live traffic through the RPC client, not just probes
+  lastError: string | null;
+  lastErrorAt: number | null;
+  circuitOpen: boolean;
+  uptime: number | null;
+  recent: boolean[];
+}
+
+export interface ChainHealth {
+  chain: string;
+  name: string;
+  color: string;
+  chainType?: string;
+  endpoints: EndpointHealth[];
+}
+
+export interface RpcHealthReport {
+  timestamp: number;
+  chains: ChainHealth[];
+}
+
+// Per-URL probe outcomes, newest last
+const probeHistory = new Map<string, boolean[]>();
+let reportCache: { data: RpcHealthReport; timestamp: number } | null = null;
+
+function recordProbe(url: string, ok: boolean): boolean[] {
+  const recent = [...(probeHistory.get(url) ?? []), ok].slice(-UPTIME_SAMPLES);
+  probeHistory.set(url, recent);
+  return recent;
+}
+
+interface ProbeResult {
+  url: string;
+  ok: boolean;
+  latencyMs: number | null;
+  blockNumber: number | null;
+  chainId: number | null;
+  error: string | null;
+}
+
+const PROBE_OPTIONS = { timeoutMs: PROBE_TIMEOUT_MS, retries: 0 };
+
+async function readHead(
+  chain: ChainConfig,
+  url: string
+): Promise<{ blockNumber: number; chainId: number | null }> {
+  // Tron's full node speaks plain HTTP rather than JSON-RPC
+  if (chain.chainType === "tron") {
+    const block = await restCall(url, "wallet/getblock", { detail: false }, PROBE_OPTIONS);
+    return { blockNumber: tronBlockNumber(block), chainId: null };
+  }
+
+  const requests: RpcRequest[] =
+    chain.chainType === "solana"
+      ? [{ method: "getSlot" }]
+      : chain.chainType === "bitcoin"
+      ? [{ method: "getblockcount" }]
+      : chain.chainType === "starknet"
+      ? [{ method: "starknet_blockNumber" }]
+      : [{ method: "eth_blockNumber" }, { method: "eth_chainId" }];
+  const results = await rpcBatch(url, requests, PROBE_OPTIONS);
+  const head = settled(results[0]);
+  return {
+    blockNumber: typeof head === "number" ? head : parseInt(hexResult(head), 16),
+    chainId:
+      results[1]?.status === "fulfilled" ? parseInt(hexResult(results[1].value), 16) : null,
+  };
+}
+
+async function probeEndpoint(
+  chain: ChainConfig,
+  url: string
+): Promise<ProbeResult> {
+  const start = Date.now();
+  try {
+    const { blockNumber, chainId } = await readHead(chain, url);
+    return {
+      url,
+      ok: true,
+      latencyMs: Date.now() - start,
+      blockNumber,
+      chainId,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      url,
+      ok: false,
+      latencyMs: null,
+      blockNumber: null,
+      chainId: null,
+      error: error instanceof Error ? error.message : "Probe failed",
+    };
+  }
+}
+
+async function probeChain(chain: ChainConfig): Promise<ChainHealth> {
+  const probes = await Promise.all(
+    chainRpcUrls(chain).map((url) => probeEndpoint(chain, url))
+  );
+  const head = probes.reduce(
+    (max, p) => (p.blockNumber !== null && p.blockNumber > max ? p.blockNumber : max),
+    -1
+  );
+
+  return {
+    chain: chain.id,
+    name: chain.name,
+    color: chain.color,
+    chainType: chain.chainType,
+    endpoints: probes.map((probe, i) => {
+      const [stats] = getEndpointStats(probe.url);
+      const recent = recordProbe(probe.url, probe.ok);
+      return {
+        url: probe.url,
+        primary: i === 0,
+        ok: probe.ok,
+        latencyMs: probe.latencyMs,
+        blockNumber: probe.blockNumber,
+        blockLag: probe.blockNumber !== null ? head - probe.blockNumber : null,
+        chainIdMatch:
+          chain.chainId !== undefined && probe.chainId !== null
+            ? probe.chainId === chain.chainId
+            : null,
+        error: probe.error,
+        lastError: stats.lastError,
+        lastErrorAt: stats.lastErrorAt,
+        circuitOpen: isCircuitOpen(probe.url),
+        uptime: recent.filter(Boolean).length / recent.length,
+        recent,
+      };
+    }),
+  };
+}
+
+export async function getRpcHealth(): Promise<RpcHealthReport> {
+  if (reportCache && Date.now() - reportCache.timestamp < PROBE_CACHE_MS) {
+    return reportCache.data;
+  }
+  const data = {
+    timestamp: Date.now(),
+    chains: await Promise.all(getChains().map(probeChain)),
+  };
+  reportCache = { data, timestamp: data.timestamp };
+  return data;
+}
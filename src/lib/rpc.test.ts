@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRpcClient, hexResult, rpcBatch, RpcResponseError } from "@/lib/rpc";
+
+const requests = [{ method: "eth_blockNumber" }, { method: "eth_gasPrice" }];
+
+// A provider that answers batches with a single error object, as some do
+function mockBatchRejecting() {
+  const batches = vi.fn();
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      if (Array.isArray(body)) {
+        batches();
+        return new Response(JSON.stringify({ jsonrpc: "2.0", error: { message: "batch not supported" } }));
+      }
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: "0x1" }));
+    })
+  );
+  return batches;
+}
+
+describe("rpcBatch", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps batching after a single rejected batch", async () => {
+    const batches = mockBatchRejecting();
+    const url = "https://rpc.test/one-rejection";
+    await rpcBatch(url, requests);
+    await rpcBatch(url, requests);
+    expect(batches).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to single calls for a while after repeated rejections", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const batches = mockBatchRejecting();
+    const url = "https://rpc.test/rejections";
+    await rpcBatch(url, requests);
+    await rpcBatch(url, requests);
+    const results = await rpcBatch(url, requests);
+    expect(batches).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "fulfilled"]);
+
+    vi.advanceTimersByTime(11 * 60_000);
+    await rpcBatch(url, requests);
+    expect(batches).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("hexResult", () => {
+  it("rejects results that aren't hex strings", () => {
+    expect(hexResult("0x1a")).toBe("0x1a");
+    expect(() => hexResult(26)).toThrow(RpcResponseError);
+    expect(() => hexResult({ result: "0x1a" })).toThrow(RpcResponseError);
+  });
+});
+
+describe("RPC_RETRIES", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it("falls back to one retry when the value isn't a whole number", async () => {
+    vi.stubEnv("RPC_RETRIES", "abc");
+    vi.resetModules();
+    const { rpcCall: freshRpcCall } = await import("@/lib/rpc");
+    const fetch = vi.fn(async () => {
+      throw new Error("connection refused");
+    });
+    vi.stubGlobal("fetch", fetch);
+    await expect(freshRpcCall("https://rpc.test/bad-retries", "eth_chainId")).rejects.toThrow(
+      "connection refused"
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("failover", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // The primary answers with a revert or drops the connection; the fallback works
+  function mockEndpoints(primary: "revert" | "down") {
+    const calls: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        calls.push(url);
+        if (!url.includes("primary")) {
+          return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: "0x5208" }));
+        }
+        if (primary === "down") throw new Error("connection refused");
+        return new Response(
+          JSON.stringify({ jsonrpc: "2.0", id: 1, error: { code: 3, message: "execution reverted" } })
+        );
+      })
+    );
+    return calls;
+  }
+
+  it("doesn't resend a call the node rejected to the fallback", async () => {
+    const calls = mockEndpoints("revert");
+    const rpc = createRpcClient(["https://primary.test/revert", "https://fallback.test/revert"]);
+    await expect(rpc.call("eth_estimateGas", [{}], { retries: 0 })).rejects.toBeInstanceOf(
+      RpcResponseError
+    );
+    expect(calls).toEqual(["https://primary.test/revert"]);
+  });
+
+  it("fails over when the endpoint is unreachable", async () => {
+    const calls = mockEndpoints("down");
+    const rpc = createRpcClient(["https://primary.test/down", "https://fallback.test/down"]);
+    await expect(rpc.call("eth_estimateGas", [{}], { retries: 0 })).resolves.toBe("0x5208");
+    expect(calls).toEqual(["https://primary.test/down", "https://fallback.test/down"]);
+  });
+});
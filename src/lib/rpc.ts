@@ -0,0 +1,406 @@
+import type { ChainConfig } from "@/lib/chains";
+
+export interface RpcOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface EndpointStats {
+  url: string;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  latencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  circuitOpenUntil: number | null;
+}
+
+// JSON-RPC level error: the endpoint answered, so it is not a health failure
+export class RpcResponseError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = "RpcResponseError";
+  }
+}
+
+// Anything but a whole number >= 0 would retry until the circuit opens
+function parseRetries(value: string | undefined): number {
+  const retries = Number(value);
+  return value?.trim() && Number.isInteger(retries) && retries >= 0 ? retries : 1;
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS) || 8000;
+const DEFAULT_RETRIES = parseRetries(process.env.RPC_RETRIES);
+const RETRY_BASE_MS = 250;
+const BREAKER_THRESHOLD = 3;
+const BREAKER_COOLDOWN_MS = 30_000;
+const LATENCY_WEIGHT = 0.2;
+
+const endpointStats = new Map<string, EndpointStats>();
+
+function statsFor(url: string): EndpointStats {
+  let stats = endpointStats.get(url);
+  if (!stats) {
+    stats = {
+      url,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      latencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      circuitOpenUntil: null,
+    };
+    endpointStats.set(url, stats);
+  }
+  return stats;
+}
+
+function recordSuccess(url: string, latencyMs: number) {
+  const stats = statsFor(url);
+  stats.requests++;
+  stats.consecutiveFailures = 0;
+  stats.circuitOpenUntil = null;
+  stats.latencyMs =
+    stats.latencyMs === null
+      ? latencyMs
+      : stats.latencyMs + (latencyMs - stats.latencyMs) * LATENCY_WEIGHT;
+}
+
+function recordFailure(url: string, error: unknown) {
+  const stats = statsFor(url);
+  stats.requests++;
+  stats.failures++;
+  stats.consecutiveFailures++;
+  stats.lastError = error instanceof Error ? error.message : String(error);
+  stats.lastErrorAt = Date.now();
+  if (stats.consecutiveFailures >= BREAKER_THRESHOLD) {
+    stats.circuitOpenUntil = Date.now() + BREAKER_COOLDOWN_MS;
+  }
+}
+
+export function isCircuitOpen(url: string): boolean {
+  const until = endpointStats.get(url)?.circuitOpenUntil;
+  return until != null && until > Date.now();
+}
+
+export function getEndpointStats(url?: string): EndpointStats[] {
+  if (url) return [statsFor(url)];
+  return Array.from(endpointStats.values());
+}
+
+function jitteredDelay(attempt: number): Promise<void> {
+  const base = RETRY_BASE_MS * 2 ** attempt;
+  const ms = base / 2 + Math.random() * base;
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface RpcRequest {
+  method: string;
+  params?: unknown[];
+}
+
+// Provider answered a batch with something other than an array of responses
+class BatchRejectedError extends Error {}
+
+// A provider has to reject batches more than once before calls go out one by
+// one, and batching is retried after a while in case it was a passing fault
+const BATCH_REJECT_THRESHOLD = 2;
+const BATCH_RETRY_MS = 10 * 60_000;
+
+interface BatchSupport {
+  rejections: number;
+  retryAt: number | null;
+}
+
+const batchSupport = new Map<string, BatchSupport>();
+
+function batchesUnsupported(url: string): boolean {
+  const retryAt = batchSupport.get(url)?.retryAt;
+  return retryAt != null && retryAt > Date.now();
+}
+
+function recordBatchRejected(url: string) {
+  const support = batchSupport.get(url) ?? { rejections: 0, retryAt: null };
+  support.rejections++;
+  if (support.rejections >= BATCH_REJECT_THRESHOLD) {
+    support.retryAt = Date.now() + BATCH_RETRY_MS;
+  }
+  batchSupport.set(url, support);
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function postJson(rpcUrl: string, body: unknown, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    const text = await res.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`RPC returned non-JSON response: ${text.slice(0, 100)}`);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`RPC timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+interface JsonRpcResponse {
+  id?: number;
+  // Shape depends on the method; callers narrow it
+  result?: unknown;
+  error?: { message: string; code?: number };
+}
+
+export type RpcBatchResult = PromiseSettledResult<JsonRpcResponse["result"]>;
+
+function unwrap(json: unknown) {
+  if (!isRecord(json)) {
+    throw new RpcResponseError(`Expected a JSON-RPC response, got ${JSON.stringify(json)}`);
+  }
+  const { error } = json as JsonRpcResponse;
+  if (error) {
+    throw new RpcResponseError(error.message, error.code);
+  }
+  return json.result;
+}
+
+async function withRetries<T>(
+  rpcUrl: string,
+  options: RpcOptions,
+  attempt: (timeoutMs: number) => Promise<T>
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let n = 0; ; n++) {
+    const start = Date.now();
+    try {
+      const result = await attempt(timeoutMs);
+      recordSuccess(rpcUrl, Date.now() - start);
+      return result;
+    } catch (error) {
+      if (error instanceof RpcResponseError || error instanceof BatchRejectedError) {
+        recordSuccess(rpcUrl, Date.now() - start);
+        throw error;
+      }
+      recordFailure(rpcUrl, error);
+      if (n >= retries || isCircuitOpen(rpcUrl)) throw error;
+      await jitteredDelay(n);
+    }
+  }
+}
+
+export async function rpcCall(
+  rpcUrl: string,
+  method: string,
+  params: unknown[] = [],
+  options: RpcOptions = {}
+) {
+  return withRetries(rpcUrl, options, async (timeoutMs) =>
+    unwrap(
+      await postJson(
+        rpcUrl,
+        { jsonrpc: "2.0", id: 1, method, params },
+        timeoutMs
+      )
+    )
+  );
+}
+
+// Plain HTTP APIs (e.g. Tron's /wallet/*) that share the endpoint's health
+// stats; the body's shape is the caller's to narrow
+export async function restCall(
+  baseUrl: string,
+  path: string,
+  body: unknown = {},
+  options: RpcOptions = {}
+): Promise<unknown> {
+  const url = `${baseUrl.replace(/\/+$/, "")}/${path}`;
+  return withRetries(baseUrl, options, async (timeoutMs) => {
+    const json = await postJson(url, body, timeoutMs);
+    if (isRecord(json) && typeof json.Error === "string") throw new RpcResponseError(json.Error);
+    return json;
+  });
+}
+
+async function rpcBatchIndividually(
+  rpcUrl: string,
+  requests: RpcRequest[],
+  options: RpcOptions
+) {
+  const results = await Promise.allSettled(
+    requests.map((r) => rpcCall(rpcUrl, r.method, r.params, options))
+  );
+  // Only a dead endpoint fails every call at the transport level
+  const transportErrors = results.map((r) =>
+    r.status === "rejected" && !(r.reason instanceof RpcResponseError)
+      ? r.reason
+      : null
+  );
+  if (results.length > 0 && transportErrors.every((e) => e !== null)) {
+    throw transportErrors[0];
+  }
+  return results;
+}
+
+// Sends all requests as one JSON-RPC batch, settling each independently.
+// Providers that keep rejecting batches are called one by one for a while.
+export async function rpcBatch(
+  rpcUrl: string,
+  requests: RpcRequest[],
+  options: RpcOptions = {}
+): Promise<RpcBatchResult[]> {
+  if (requests.length <= 1 || batchesUnsupported(rpcUrl)) {
+    return rpcBatchIndividually(rpcUrl, requests, options);
+  }
+
+  let responses: JsonRpcResponse[];
+  try {
+    responses = await withRetries(rpcUrl, options, async (timeoutMs) => {
+      const json = await postJson(
+        rpcUrl,
+        requests.map((r, id) => ({
+          jsonrpc: "2.0",
+          id,
+          method: r.method,
+          params: r.params ?? [],
+        })),
+        timeoutMs
+      );
+      if (!Array.isArray(json)) throw new BatchRejectedError();
+      return json;
+    });
+  } catch (error) {
+    if (!(error instanceof BatchRejectedError)) throw error;
+    recordBatchRejected(rpcUrl);
+    return rpcBatchIndividually(rpcUrl, requests, options);
+  }
+  batchSupport.delete(rpcUrl);
+
+  const byId = new Map(responses.map((r) => [r.id, r]));
+  return requests.map((r, id) => {
+    const response = byId.get(id);
+    if (!response) {
+      return {
+        status: "rejected",
+        reason: new RpcResponseError(`No batch response for ${r.method}`),
+      };
+    }
+    try {
+      return { status: "fulfilled", value: unwrap(response) };
+    } catch (reason) {
+      return { status: "rejected", reason };
+    }
+  });
+}
+
+export function settled<T>(result: PromiseSettledResult<T>): T {
+  if (result.status === "rejected") throw result.reason;
+  return result.value;
+}
+
+// Quantities and eth_call data come back as 0x-prefixed hex strings
+export function hexResult(value: unknown): string {
+  if (typeof value !== "string" || !/^0x[0-9a-f]*$/i.test(value)) {
+    throw new RpcResponseError(`Expected a hex string, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+export function ethCallRequest(to: string, data: string): RpcRequest {
+  return { method: "eth_call", params: [{ to, data }, "latest"] };
+}
+
+export async function ethCall(
+  rpcUrl: string,
+  to: string,
+  data: string
+): Promise<string> {
+  return hexResult(await rpcCall(rpcUrl, "eth_call", [{ to, data }, "latest"]));
+}
+
+export function chainRpcUrls(chain: ChainConfig): string[] {
+  return [chain.rpcUrl, ...(chain.rpcFallbacks ?? [])];
+}
+
+// Healthy endpoints first in configured order; open circuits are a last resort
+export function orderEndpoints(urls: string[]): string[] {
+  const healthy = urls.filter((url) => !isCircuitOpen(url));
+  const open = urls.filter((url) => isCircuitOpen(url));
+  return [...healthy, ...open];
+}
+
+export async function withFailover<T>(
+  urls: string[],
+  fn: (rpcUrl: string) => Promise<T>
+): Promise<T> {
+  let lastError: unknown = new Error("No RPC endpoints configured");
+  for (const url of orderEndpoints(urls)) {
+    try {
+      return await fn(url);
+    } catch (error) {
+      // The node answered (a revert, bad params); another one would say the same
+      if (error instanceof RpcResponseError) throw error;
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+export interface RpcClient {
+  call(
+    method: string,
+    params?: unknown[],
+    options?: RpcOptions
+  ): ReturnType<typeof rpcCall>;
+  batch(
+    requests: RpcRequest[],
+    options?: RpcOptions
+  ): ReturnType<typeof rpcBatch>;
+  run<T>(fn: (rpcUrl: string) => Promise<T>): Promise<T>;
+  // Endpoints that answered at least one call, in order of first use
+  servedBy(): string[];
+}
+
+// Fails over per call and sticks to whichever endpoint last answered
+export function createRpcClient(urls: string[]): RpcClient {
+  let preferred: string | null = null;
+  const served: string[] = [];
+
+  async function run<T>(fn: (rpcUrl: string) => Promise<T>): Promise<T> {
+    const ordered = preferred
+      ? [preferred, ...urls.filter((url) => url !== preferred)]
+      : urls;
+    return withFailover(ordered, async (url) => {
+      const result = await fn(url);
+      preferred = url;
+      if (!served.includes(url)) served.push(url);
+      return result;
+    });
+  }
+
+  return {
+    call: (method, params = [], options) =>
+      run((url) => rpcCall(url, method, params, options)),
+    batch: (requests, options) =>
+      run((url) => rpcBatch(url, requests, options)),
+    run,
+    servedBy: () => [...served],
+  };
+}
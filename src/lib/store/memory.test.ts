@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryStore } from "@/lib/store/memory";
+import { DAY_MS, GasHistoryInsert, HOUR_MS, RetentionPolicy } from "@/lib/store/types";
+
+const T = Date.UTC(2026, 0, 1);
+const MINUTE_MS = 60_000;
+const KEEP_ALL: RetentionPolicy = { raw: 0, hourly: 0, daily: 0 };
+
+function sample(timestamp: number, gwei: number): GasHistoryInsert {
+  return { chain: "ethereum", avgGwei: gwei, swapCostUsd: gwei / 10, tokenPrice: 2000, timestamp };
+}
+
+describe("memory store rollups", () => {
+  it("buckets raw samples at the requested width", async () => {
+    const store = createMemoryStore();
+    await store.insertGasData([
+      sample(T, 10),
+      sample(T + 4 * MINUTE_MS, 20),
+      sample(T + 5 * MINUTE_MS, 60),
+    ]);
+    const points = await store.queryChainHistory("mainnet", "ethereum", T - 1, 5 * MINUTE_MS, "raw");
+    expect(points.map((p) => [p.timestamp, p.avg])).toEqual([
+      [T, 15],
+      [T + 5 * MINUTE_MS, 60],
+    ]);
+  });
+
+  it("rolls up incrementally across maintenance runs", async () => {
+    const store = createMemoryStore();
+    await store.insertGasData([
+      sample(T, 10),
+      sample(T + 10 * MINUTE_MS, 20),
+      sample(T + 20 * MINUTE_MS, 30),
+      sample(T + 65 * MINUTE_MS, 40),
+    ]);
+    await store.runMaintenance(T + 70 * MINUTE_MS, KEEP_ALL);
+
+    const hourly = await store.queryChainHistory("mainnet", "ethereum", T - 1, HOUR_MS, "hourly");
+    expect(hourly).toHaveLength(2);
+    expect(hourly[0]).toMatchObject({ timestamp: T, min: 10, avg: 20, max: 30, p50: 20, p90: 28 });
+    expect(hourly[1]).toMatchObject({ timestamp: T + HOUR_MS, avg: 40 });
+
+    // Sample-weighted merge of the two hours
+    let daily = await store.queryChainHistory("mainnet", "ethereum", T - 1, DAY_MS, "daily");
+    expect(daily).toHaveLength(1);
+    expect(daily[0]).toMatchObject({ timestamp: T, min: 10, avg: 25, max: 40, p50: 25, p90: 31 });
+
+    // The second run refreshes the open hour and day, adds the next hour, and
+    // keeps the finished hour after its raw samples expire
+    await store.insertGasData([sample(T + 100 * MINUTE_MS, 60), sample(T + 130 * MINUTE_MS, 70)]);
+    await store.runMaintenance(T + 140 * MINUTE_MS, { ...KEEP_ALL, raw: 110 / 1440 });
+
+    const raw = await store.queryChainHistory("mainnet", "ethereum", T - 1, MINUTE_MS, "raw");
+    expect(raw.map((p) => p.timestamp)).toEqual([
+      T + 65 * MINUTE_MS,
+      T + 100 * MINUTE_MS,
+      T + 130 * MINUTE_MS,
+    ]);
+    const rehourly = await store.queryChainHistory("mainnet", "ethereum", T - 1, HOUR_MS, "hourly");
+    expect(rehourly.map((p) => [p.timestamp, p.avg])).toEqual([
+      [T, 20],
+      [T + HOUR_MS, 50],
+      [T + 2 * HOUR_MS, 70],
+    ]);
+    daily = await store.queryChainHistory("mainnet", "ethereum", T - 1, DAY_MS, "daily");
+    expect(daily).toHaveLength(1);
+    expect(daily[0]).toMatchObject({ min: 10, max: 70 });
+    expect(daily[0].avg).toBeCloseTo((20 * 3 + 50 * 2 + 70) / 6, 9);
+  });
+
+  it("drops each tier past its retention", async () => {
+    const store = createMemoryStore();
+    const now = T + 10 * DAY_MS + 12 * HOUR_MS;
+    await store.insertGasData([6, 4, 2, 0.5].map((days) => sample(now - days * DAY_MS, days)));
+    await store.insertPrices([
+      { token: "ethereum", price: 1900, source: "coingecko", timestamp: now - 6 * DAY_MS },
+      { token: "ethereum", price: 2000, source: "coingecko", timestamp: now - 2 * DAY_MS },
+    ]);
+    await store.runMaintenance(now, { raw: 1, hourly: 3, daily: 5 });
+
+    const timestamps = async (bucketMs: number, tier: "raw" | "hourly" | "daily") =>
+      (await store.queryChainHistory("mainnet", "ethereum", 0, bucketMs, tier)).map(
+        (p) => p.timestamp
+      );
+    expect(await timestamps(MINUTE_MS, "raw")).toEqual([T + 10 * DAY_MS]);
+    expect(await timestamps(HOUR_MS, "hourly")).toEqual([
+      T + 8 * DAY_MS + 12 * HOUR_MS,
+      T + 10 * DAY_MS,
+    ]);
+    expect(await timestamps(DAY_MS, "daily")).toEqual([
+      T + 6 * DAY_MS,
+      T + 8 * DAY_MS,
+      T + 10 * DAY_MS,
+    ]);
+    const prices = await store.queryPriceHistory("ethereum", 0, now, DAY_MS);
+    expect(prices.map((p) => p.price)).toEqual([2000]);
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  AllChainsHistoryPoint,
+  BucketStats,
+  ChainHistoryPoint,
+  DAY_MS,
+  GasHistoryInsert,
+  GasStore,
+  HistoryTier,
+  HOUR_MS,
+  PriceHistoryInsert,
+  PriceHistoryPoint,
+  TIER_WIDTH_MS,
+} from "@/lib/store/types";
+
+interface Sample {
+  network: string;
+  chain: string;
+  timestamp: number;
+  swap: number;
+  gwei: number;
+  low: number;
+  high: number;
+  baseFee: number | null;
+  tokenPrice: number;
+}
+
+interface RollupRow {
+  network: string;
+  chain: string;
+  bucket: number;
+  samples: number;
+  swap: BucketStats;
+  gwei: BucketStats;
+  low: number;
+  high: number;
+  baseFee: number | null;
+  tokenPrice: number;
+}
+
+// Same interpolation as Postgres percentile_cont
+function percentileCont(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+function meanOrNull(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? mean(present) : null;
+}
+
+function statsOf(values: number[]): BucketStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    avg: mean(sorted),
+    max: sorted[sorted.length - 1],
+    p50: percentileCont(sorted, 0.5),
+    p90: percentileCont(sorted, 0.9),
+  };
+}
+
+function weighted(rows: RollupRow[], pick: (row: RollupRow) => number): number {
+  const total = rows.reduce((s, r) => s + r.samples, 0);
+  return rows.reduce((s, r) => s + pick(r) * r.samples, 0) / total;
+}
+
+// Percentiles of merged rollups are sample-weighted means, matching the SQL tiers
+function mergeStats(rows: RollupRow[], pick: (row: RollupRow) => BucketStats): BucketStats {
+  return {
+    min: Math.min(...rows.map((r) => pick(r).min)),
+    avg: weighted(rows, (r) => pick(r).avg),
+    max: Math.max(...rows.map((r) => pick(r).max)),
+    p50: weighted(rows, (r) => pick(r).p50),
+    p90: weighted(rows, (r) => pick(r).p90),
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+function floorTo(value: number, width: number): number {
+  return Math.floor(value / width) * width;
+}
+
+function rollupSamples(bucket: number, samples: Sample[]): RollupRow {
+  return {
+    network: samples[0].network,
+    chain: samples[0].chain,
+    bucket,
+    samples: samples.length,
+    swap: statsOf(samples.map((s) => s.swap)),
+    gwei: statsOf(samples.map((s) => s.gwei)),
+    low: mean(samples.map((s) => s.low)),
+    high: mean(samples.map((s) => s.high)),
+    baseFee: meanOrNull(samples.map((s) => s.baseFee)),
+    tokenPrice: mean(samples.map((s) => s.tokenPrice)),
+  };
+}
+
+function mergeRollups(bucket: number, rows: RollupRow[]): RollupRow {
+  return {
+    network: rows[0].network,
+    chain: rows[0].chain,
+    bucket,
+    samples: rows.reduce((s, r) => s + r.samples, 0),
+    swap: mergeStats(rows, (r) => r.swap),
+    gwei: mergeStats(rows, (r) => r.gwei),
+    low: weighted(rows, (r) => r.low),
+    high: weighted(rows, (r) => r.high),
+    baseFee: meanOrNull(rows.map((r) => r.baseFee)),
+    tokenPrice: weighted(rows, (r) => r.tokenPrice),
+  };
+}
+
+// Buckets the requested tier into rollup rows, so raw and rolled-up tiers can
+// be read through the same code path
+function bucketed(
+  samples: Sample[],
+  rollups: Record<"hourly" | "daily", RollupRow[]>,
+  since: number,
+  bucketMs: number,
+  tier: HistoryTier
+): RollupRow[] {
+  const out: RollupRow[] = [];
+  if (tier === "raw") {
+    const inRange = samples.filter((s) => s.timestamp > since);
+    const key = (s: Sample) => `${s.network}|${s.chain}|${floorTo(s.timestamp, bucketMs)}`;
+    for (const group of groupBy(inRange, key).values()) {
+      out.push(rollupSamples(floorTo(group[0].timestamp, bucketMs), group));
+    }
+  } else {
+    const inRange = rollups[tier].filter((r) => r.bucket > since - TIER_WIDTH_MS[tier]);
+    const key = (r: RollupRow) => `${r.network}|${r.chain}|${floorTo(r.bucket, bucketMs)}`;
+    for (const group of groupBy(inRange, key).values()) {
+      out.push(mergeRollups(floorTo(group[0].bucket, bucketMs), group));
+    }
+  }
+  return out.sort((a, b) => a.bucket - b.bucket);
+}
+
+function latestBucket(rows: RollupRow[]): number {
+  return rows.reduce((latest, r) => Math.max(latest, r.bucket), 0);
+}
+
+function refreshRollup(
+  existing: RollupRow[],
+  fresh: RollupRow[],
+  from: number
+): RollupRow[] {
+  return [...existing.filter((r) => r.bucket < from), ...fresh];
+}
+
+// Process-local store for development and tests; data is lost on restart
+export function createMemoryStore(): GasStore {
+  let samples: Sample[] = [];
+  let prices: PriceHistoryInsert[] = [];
+  const rollups: Record<"hourly" | "daily", RollupRow[]> = { hourly: [], daily: [] };
+
+  return {
+    async insertGasData(rows: GasHistoryInsert[]) {
+      for (const r of rows) {
+        samples.push({
+          network: r.network ?? "mainnet",
+          chain: r.chain,
+          timestamp: r.timestamp,
+          swap: r.swapCostUsd,
+          gwei: r.avgGwei,
+          low: r.lowGwei ?? r.avgGwei * 0.85,
+          high: r.highGwei ?? r.avgGwei * 1.15,
+          baseFee: r.baseFee ?? null,
+          tokenPrice: r.tokenPrice,
+        });
+      }
+    },
+
+    async queryAllChainsHistory(network, since, bucketMs, tier): Promise<AllChainsHistoryPoint[]> {
+      const rows = bucketed(samples, rollups, since, bucketMs, tier).filter(
+        (r) => r.network === network
+      );
+      return Array.from(groupBy(rows, (r) => String(r.bucket)).values()).map((group) => ({
+        timestamp: group[0].bucket,
+        chains: Object.fromEntries(group.map((r) => [r.chain, r.swap])),
+      }));
+    },
+
+    async queryChainHistory(network, chain, since, bucketMs, tier): Promise<ChainHistoryPoint[]> {
+      const rows = bucketed(samples, rollups, since, bucketMs, tier).filter(
+        (r) => r.network === network && r.chain === chain
+      );
+      return rows.map((r) => ({
+        timestamp: r.bucket,
+        low: r.low,
+        average: r.gwei.avg,
+        high: r.high,
+        baseFee: r.baseFee,
+        ...r.gwei,
+      }));
+    },
+
+    async insertPrices(rows) {
+      prices.push(...rows);
+    },
+
+    async queryPriceHistory(token, since, until, bucketMs): Promise<PriceHistoryPoint[]> {
+      const inRange = prices.filter(
+        (p) => p.token === token && p.timestamp > since && p.timestamp <= until
+      );
+      return Array.from(groupBy(inRange, (p) => String(floorTo(p.timestamp, bucketMs))).values())
+        .map((group) => {
+          const values = group.map((p) => p.price);
+          return {
+            timestamp: floorTo(group[0].timestamp, bucketMs),
+            price: mean(values),
+            min: Math.min(...values),
+            max: Math.max(...values),
+          };
+        })
+        .sort((a, b) => a.timestamp - b.timestamp);
+    },
+
+    async runMaintenance(now, retention) {
+      const latestHour = latestBucket(rollups.hourly);
+      const hourly = bucketed(samples, rollups, latestHour - 1, HOUR_MS, "raw");
+      rollups.hourly = refreshRollup(rollups.hourly, hourly, latestHour);
+
+      const latestDay = latestBucket(rollups.daily);
+      const daily = bucketed(samples, rollups, latestDay, DAY_MS, "hourly");
+      rollups.daily = refreshRollup(rollups.daily, daily, latestDay);
+
+      if (retention.raw > 0) {
+        samples = samples.filter((s) => s.timestamp >= now - retention.raw * DAY_MS);
+      }
+      if (retention.hourly > 0) {
+        rollups.hourly = rollups.hourly.filter((r) => r.bucket >= now - retention.hourly * DAY_MS);
+      }
+      if (retention.daily > 0) {
+        rollups.daily = rollups.daily.filter((r) => r.bucket >= now - retention.daily * DAY_MS);
+        prices = prices.filter((p) => p.timestamp >= now - retention.daily * DAY_MS);
+      }
+    },
+  };
+}
@@ -0,0 +1,542 @@
+import {
+  AllChainsHistoryPoint,
+  BucketStats,
+  ChainHistoryPoint,
+  DAY_MS,
+  GasHistoryInsert,
+  GasStore,
+  HistoryTier,
+  HOUR_MS,
+  PriceHistoryInsert,
+  PriceHistoryPoint,
+  RetentionPolicy,
+  TIER_WIDTH_MS,
+} from "@/lib/store/types";
+
+export type SqlRow = Record<string, unknown>;
+
+// Executes a query with $1-style placeholders and resolves to its rows
+export type SqlExecutor = (text: string, params: unknown[]) => Promise<SqlRow[]>;
+
+interface UnsafeRaw {
+  unsafeRaw: string;
+}
+
+// Tagged-template front end matching @neondatabase/serverless: interpolated
+// values become parameters, sql.unsafe() values are spliced in verbatim. The
+// row type is the caller's description of its SELECT list.
+interface Sql {
+  <T = SqlRow>(strings: TemplateStringsArray, ...values: unknown[]): Promise<T[]>;
+  unsafe(raw: string): UnsafeRaw;
+}
+
+function createSql(execute: SqlExecutor): Sql {
+  const sql = <T,>(strings: TemplateStringsArray, ...values: unknown[]) => {
+    let text = strings[0];
+    const params: unknown[] = [];
+    values.forEach((value, i) => {
+      if (value && typeof value === "object" && "unsafeRaw" in value) {
+        text += (value as UnsafeRaw).unsafeRaw;
+      } else {
+        params.push(value);
+        text += `$${params.length}`;
+      }
+      text += strings[i + 1];
+    });
+    return execute(text, params) as Promise<T[]>;
+  };
+  sql.unsafe = (raw: string): UnsafeRaw => ({ unsafeRaw: raw });
+  return sql;
+}
+
+const ROLLUP_TABLES = {
+  hourly: "gas_history_hourly",
+  daily: "gas_history_daily",
+};
+
+async function ensureTables(sql: Sql) {
+  await sql`
+    CREATE TABLE IF NOT EXISTS gas_history (
+      id SERIAL PRIMARY KEY,
+      chain TEXT NOT NULL,
+      avg_gwei DOUBLE PRECISION NOT NULL,
+      swap_cost_usd DOUBLE PRECISION NOT NULL,
+      token_price DOUBLE PRECISION NOT NULL,
+      block_number BIGINT,
+      timestamp BIGINT NOT NULL
+    )
+  `;
+  // Columns added after the initial schema; legacy rows keep them NULL
+  await sql`
+    ALTER TABLE gas_history
+      ADD COLUMN IF NOT EXISTS low_gwei DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS high_gwei DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS base_fee_gwei DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS priority_p10 DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS priority_p50 DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS priority_p90 DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS utilization DOUBLE PRECISION
+  `;
+  // Early tables stored block numbers as INTEGER; the rewrite only runs once
+  await sql`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'gas_history' AND column_name = 'block_number'
+          AND data_type <> 'bigint'
+      ) THEN
+        ALTER TABLE gas_history ALTER COLUMN block_number TYPE BIGINT;
+      END IF;
+    END $$
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_chain_ts ON gas_history(chain, timestamp)
+  `;
+  // Rows written before testnet support are all mainnet
+  await sql`
+    ALTER TABLE gas_history ADD COLUMN IF NOT EXISTS network TEXT NOT NULL DEFAULT 'mainnet'
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_network_chain_ts ON gas_history(network, chain, timestamp)
+  `;
+  await sql`
+    CREATE TABLE IF NOT EXISTS price_history (
+      id SERIAL PRIMARY KEY,
+      token TEXT NOT NULL,
+      price DOUBLE PRECISION NOT NULL,
+      source TEXT NOT NULL,
+      timestamp BIGINT NOT NULL
+    )
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_price_token_ts ON price_history(token, timestamp)
+  `;
+  for (const table of Object.values(ROLLUP_TABLES)) {
+    await sql`
+      CREATE TABLE IF NOT EXISTS ${sql.unsafe(table)} (
+        network TEXT NOT NULL DEFAULT 'mainnet',
+        chain TEXT NOT NULL,
+        bucket BIGINT NOT NULL,
+        samples INTEGER NOT NULL,
+        swap_min DOUBLE PRECISION NOT NULL,
+        swap_avg DOUBLE PRECISION NOT NULL,
+        swap_max DOUBLE PRECISION NOT NULL,
+        swap_p50 DOUBLE PRECISION NOT NULL,
+        swap_p90 DOUBLE PRECISION NOT NULL,
+        gwei_min DOUBLE PRECISION NOT NULL,
+        gwei_avg DOUBLE PRECISION NOT NULL,
+        gwei_max DOUBLE PRECISION NOT NULL,
+        gwei_p50 DOUBLE PRECISION NOT NULL,
+        gwei_p90 DOUBLE PRECISION NOT NULL,
+        low_avg DOUBLE PRECISION NOT NULL,
+        high_avg DOUBLE PRECISION NOT NULL,
+        base_fee_avg DOUBLE PRECISION,
+        token_price_avg DOUBLE PRECISION NOT NULL,
+        PRIMARY KEY (network, chain, bucket)
+      )
+    `;
+    // Tables created before testnet support are keyed by (chain, bucket)
+    await sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = '${sql.unsafe(table)}' AND column_name = 'network'
+        ) THEN
+          ALTER TABLE ${sql.unsafe(table)} ADD COLUMN network TEXT NOT NULL DEFAULT 'mainnet';
+          ALTER TABLE ${sql.unsafe(table)} DROP CONSTRAINT ${sql.unsafe(table)}_pkey;
+          ALTER TABLE ${sql.unsafe(table)} ADD PRIMARY KEY (network, chain, bucket);
+        END IF;
+      END $$
+    `;
+  }
+}
+
+const ROLLUP_UPDATE_SET = [
+  "samples",
+  "swap_min",
+  "swap_avg",
+  "swap_max",
+  "swap_p50",
+  "swap_p90",
+  "gwei_min",
+  "gwei_avg",
+  "gwei_max",
+  "gwei_p50",
+  "gwei_p90",
+  "low_avg",
+  "high_avg",
+  "base_fee_avg",
+  "token_price_avg",
+]
+  .map((column) => `${column} = EXCLUDED.${column}`)
+  .join(", ");
+
+async function rollupHourly(sql: Sql) {
+  const [{ latest }] = await sql<{ latest: string | number }>`
+    SELECT COALESCE(MAX(bucket), 0) AS latest FROM gas_history_hourly
+  `;
+
+  // Recompute from the latest (possibly partial) hour onwards
+  await sql`
+    INSERT INTO gas_history_hourly (
+      network, chain, bucket, samples,
+      swap_min, swap_avg, swap_max, swap_p50, swap_p90,
+      gwei_min, gwei_avg, gwei_max, gwei_p50, gwei_p90,
+      low_avg, high_avg, base_fee_avg, token_price_avg
+    )
+    SELECT
+      network,
+      chain,
+      (timestamp / ${HOUR_MS}) * ${HOUR_MS},
+      COUNT(*),
+      MIN(swap_cost_usd),
+      AVG(swap_cost_usd),
+      MAX(swap_cost_usd),
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY swap_cost_usd),
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY swap_cost_usd),
+      MIN(avg_gwei),
+      AVG(avg_gwei),
+      MAX(avg_gwei),
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY avg_gwei),
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY avg_gwei),
+      AVG(COALESCE(low_gwei, avg_gwei * 0.85)),
+      AVG(COALESCE(high_gwei, avg_gwei * 1.15)),
+      AVG(base_fee_gwei),
+      AVG(token_price)
+    FROM gas_history
+    WHERE timestamp >= ${Number(latest)}
+    GROUP BY 1, 2, 3
+    ON CONFLICT (network, chain, bucket) DO UPDATE SET ${sql.unsafe(ROLLUP_UPDATE_SET)}
+  `;
+}
+
+async function rollupDaily(sql: Sql) {
+  const [{ latest }] = await sql<{ latest: string | number }>`
+    SELECT COALESCE(MAX(bucket), 0) AS latest FROM gas_history_daily
+  `;
+
+  // Built from the hourly tier so it survives raw-row retention. Percentiles
+  // are approximated as sample-weighted means of the hourly percentiles.
+  await sql`
+    INSERT INTO gas_history_daily (
+      network, chain, bucket, samples,
+      swap_min, swap_avg, swap_max, swap_p50, swap_p90,
+      gwei_min, gwei_avg, gwei_max, gwei_p50, gwei_p90,
+      low_avg, high_avg, base_fee_avg, token_price_avg
+    )
+    SELECT
+      network,
+      chain,
+      (bucket / ${DAY_MS}) * ${DAY_MS},
+      SUM(samples),
+      MIN(swap_min),
+      SUM(swap_avg * samples) / SUM(samples),
+      MAX(swap_max),
+      SUM(swap_p50 * samples) / SUM(samples),
+      SUM(swap_p90 * samples) / SUM(samples),
+      MIN(gwei_min),
+      SUM(gwei_avg * samples) / SUM(samples),
+      MAX(gwei_max),
+      SUM(gwei_p50 * samples) / SUM(samples),
+      SUM(gwei_p90 * samples) / SUM(samples),
+      SUM(low_avg * samples) / SUM(samples),
+      SUM(high_avg * samples) / SUM(samples),
+      AVG(base_fee_avg),
+      SUM(token_price_avg * samples) / SUM(samples)
+    FROM gas_history_hourly
+    WHERE bucket >= ${Number(latest)}
+    GROUP BY 1, 2, 3
+    ON CONFLICT (network, chain, bucket) DO UPDATE SET ${sql.unsafe(ROLLUP_UPDATE_SET)}
+  `;
+}
+
+async function applyRetention(
+  sql: Sql,
+  now: number,
+  retention: RetentionPolicy
+) {
+  if (retention.raw > 0) {
+    await sql`
+      DELETE FROM gas_history WHERE timestamp < ${now - retention.raw * DAY_MS}
+    `;
+  }
+  if (retention.hourly > 0) {
+    await sql`
+      DELETE FROM gas_history_hourly WHERE bucket < ${now - retention.hourly * DAY_MS}
+    `;
+  }
+  // Prices are one row per token per collection, so they live as long as
+  // the daily tier rather than the raw one
+  if (retention.daily > 0) {
+    await sql`
+      DELETE FROM gas_history_daily WHERE bucket < ${now - retention.daily * DAY_MS}
+    `;
+    await sql`
+      DELETE FROM price_history WHERE timestamp < ${now - retention.daily * DAY_MS}
+    `;
+  }
+}
+
+async function insertRows(sql: Sql, rows: GasHistoryInsert[]) {
+  // Batch insert using unnest for efficiency
+  const networks = rows.map((r) => r.network ?? "mainnet");
+  const chains = rows.map((r) => r.chain);
+  const avgGweis = rows.map((r) => r.avgGwei);
+  const lowGweis = rows.map((r) => r.lowGwei ?? null);
+  const highGweis = rows.map((r) => r.highGwei ?? null);
+  const baseFees = rows.map((r) => r.baseFee ?? null);
+  const p10s = rows.map((r) => r.priorityFees?.p10 ?? null);
+  const p50s = rows.map((r) => r.priorityFees?.p50 ?? null);
+  const p90s = rows.map((r) => r.priorityFees?.p90 ?? null);
+  const utilizations = rows.map((r) => r.utilization ?? null);
+  const swapCosts = rows.map((r) => r.swapCostUsd);
+  const tokenPrices = rows.map((r) => r.tokenPrice);
+  const blockNumbers = rows.map((r) => r.blockNumber ?? null);
+  const timestamps = rows.map((r) => r.timestamp);
+
+  await sql`
+    INSERT INTO gas_history (
+      network, chain, avg_gwei, low_gwei, high_gwei, base_fee_gwei,
+      priority_p10, priority_p50, priority_p90, utilization,
+      swap_cost_usd, token_price, block_number, timestamp
+    )
+    SELECT * FROM unnest(
+      ${networks}::text[],
+      ${chains}::text[],
+      ${avgGweis}::double precision[],
+      ${lowGweis}::double precision[],
+      ${highGweis}::double precision[],
+      ${baseFees}::double precision[],
+      ${p10s}::double precision[],
+      ${p50s}::double precision[],
+      ${p90s}::double precision[],
+      ${utilizations}::double precision[],
+      ${swapCosts}::double precision[],
+      ${tokenPrices}::double precision[],
+      ${blockNumbers}::bigint[],
+      ${timestamps}::bigint[]
+    )
+  `;
+}
+
+async function insertPriceRows(sql: Sql, rows: PriceHistoryInsert[]) {
+  await sql`
+    INSERT INTO price_history (token, price, source, timestamp)
+    SELECT * FROM unnest(
+      ${rows.map((r) => r.token)}::text[],
+      ${rows.map((r) => r.price)}::double precision[],
+      ${rows.map((r) => r.source)}::text[],
+      ${rows.map((r) => r.timestamp)}::bigint[]
+    )
+  `;
+}
+
+async function queryPrices(
+  sql: Sql,
+  token: string,
+  since: number,
+  until: number,
+  bucketMs: number
+): Promise<PriceHistoryPoint[]> {
+  const rows = await sql<{ bucket: string | number; price: number; min: number; max: number }>`
+    SELECT
+      (timestamp / ${bucketMs}) * ${bucketMs} AS bucket,
+      AVG(price) AS price,
+      MIN(price) AS min,
+      MAX(price) AS max
+    FROM price_history
+    WHERE token = ${token} AND timestamp > ${since} AND timestamp <= ${until}
+    GROUP BY bucket
+    ORDER BY bucket ASC
+  `;
+
+  return rows.map((row) => ({
+    timestamp: Number(row.bucket),
+    price: row.price,
+    min: row.min,
+    max: row.max,
+  }));
+}
+
+interface AllChainsBucketRow {
+  bucket: string | number;
+  chain: string;
+  min: number;
+  avg: number;
+  max: number;
+  p50: number;
+  p90: number;
+}
+
+async function queryAllChains(
+  sql: Sql,
+  network: string,
+  since: number,
+  bucketMs: number,
+  tier: HistoryTier
+): Promise<AllChainsHistoryPoint[]> {
+  const rows = tier === "raw"
+    ? await sql<AllChainsBucketRow>`
+        SELECT
+          (timestamp / ${bucketMs}) * ${bucketMs} AS bucket,
+          chain,
+          MIN(swap_cost_usd) AS min,
+          AVG(swap_cost_usd) AS avg,
+          MAX(swap_cost_usd) AS max,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY swap_cost_usd) AS p50,
+          percentile_cont(0.9) WITHIN GROUP (ORDER BY swap_cost_usd) AS p90
+        FROM gas_history
+        WHERE network = ${network} AND timestamp > ${since}
+        GROUP BY bucket, chain
+        ORDER BY bucket ASC
+      `
+    : await sql<AllChainsBucketRow>`
+        SELECT
+          (bucket / ${bucketMs}) * ${bucketMs} AS bucket,
+          chain,
+          MIN(swap_min) AS min,
+          SUM(swap_avg * samples) / SUM(samples) AS avg,
+          MAX(swap_max) AS max,
+          SUM(swap_p50 * samples) / SUM(samples) AS p50,
+          SUM(swap_p90 * samples) / SUM(samples) AS p90
+        FROM ${sql.unsafe(ROLLUP_TABLES[tier])}
+        WHERE network = ${network} AND bucket > ${since - TIER_WIDTH_MS[tier]}
+        GROUP BY 1, 2
+        ORDER BY 1 ASC
+      `;
+
+  const grouped = new Map<number, Record<string, BucketStats>>();
+  for (const row of rows) {
+    const ts = Number(row.bucket);
+    let entry = grouped.get(ts);
+    if (!entry) {
+      entry = {};
+      grouped.set(ts, entry);
+    }
+    entry[row.chain] = {
+      min: row.min,
+      avg: row.avg,
+      max: row.max,
+      p50: row.p50,
+      p90: row.p90,
+    };
+  }
+
+  return Array.from(grouped.entries()).map(([timestamp, chains]) => ({
+    timestamp,
+    chains,
+  }));
+}
+
+interface ChainBucketRow extends BucketStats {
+  bucket: string | number;
+  low: number;
+  high: number;
+  base_fee: number | null;
+}
+
+async function queryChain(
+  sql: Sql,
+  network: string,
+  chain: string,
+  since: number,
+  bucketMs: number,
+  tier: HistoryTier
+): Promise<ChainHistoryPoint[]> {
+  // Rows written before tiers were persisted only have avg_gwei; approximate
+  // their low/high as ±15%
+  const rows = tier === "raw"
+    ? await sql<ChainBucketRow>`
+        SELECT
+          (timestamp / ${bucketMs}) * ${bucketMs} AS bucket,
+          AVG(COALESCE(low_gwei, avg_gwei * 0.85)) AS low,
+          AVG(COALESCE(high_gwei, avg_gwei * 1.15)) AS high,
+          AVG(base_fee_gwei) AS base_fee,
+          MIN(avg_gwei) AS min,
+          AVG(avg_gwei) AS avg,
+          MAX(avg_gwei) AS max,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY avg_gwei) AS p50,
+          percentile_cont(0.9) WITHIN GROUP (ORDER BY avg_gwei) AS p90
+        FROM gas_history
+        WHERE network = ${network} AND chain = ${chain} AND timestamp > ${since}
+        GROUP BY bucket
+        ORDER BY bucket ASC
+      `
+    : await sql<ChainBucketRow>`
+        SELECT
+          (bucket / ${bucketMs}) * ${bucketMs} AS bucket,
+          SUM(low_avg * samples) / SUM(samples) AS low,
+          SUM(high_avg * samples) / SUM(samples) AS high,
+          AVG(base_fee_avg) AS base_fee,
+          MIN(gwei_min) AS min,
+          SUM(gwei_avg * samples) / SUM(samples) AS avg,
+          MAX(gwei_max) AS max,
+          SUM(gwei_p50 * samples) / SUM(samples) AS p50,
+          SUM(gwei_p90 * samples) / SUM(samples) AS p90
+        FROM ${sql.unsafe(ROLLUP_TABLES[tier])}
+        WHERE network = ${network} AND chain = ${chain} AND bucket > ${since - TIER_WIDTH_MS[tier]}
+        GROUP BY 1
+        ORDER BY 1 ASC
+      `;
+
+  return rows.map((row) => ({
+    timestamp: Number(row.bucket),
+    low: row.low,
+    average: row.avg,
+    high: row.high,
+    baseFee: row.base_fee,
+    min: row.min,
+    avg: row.avg,
+    max: row.max,
+    p50: row.p50,
+    p90: row.p90,
+  }));
+}
+
+export function createPostgresStore(execute: SqlExecutor): GasStore {
+  const sql = createSql(execute);
+  let ready: Promise<void> | null = null;
+  const ensureReady = () => {
+    if (!ready) {
+      ready = ensureTables(sql).catch((error) => {
+        ready = null;
+        throw error;
+      });
+    }
+    return ready;
+  };
+
+  return {
+    async insertGasData(rows) {
+      await ensureReady();
+      await insertRows(sql, rows);
+    },
+    async queryAllChainsHistory(network, since, bucketMs, tier) {
+      await ensureReady();
+      return queryAllChains(sql, network, since, bucketMs, tier);
+    },
+    async queryChainHistory(network, chain, since, bucketMs, tier) {
+      await ensureReady();
+      return queryChain(sql, network, chain, since, bucketMs, tier);
+    },
+    async insertPrices(rows) {
+      if (rows.length === 0) return;
+      await ensureReady();
+      await insertPriceRows(sql, rows);
+    },
+    async queryPriceHistory(token, since, until, bucketMs) {
+      await ensureReady();
+      return queryPrices(sql, token, since, until, bucketMs);
+    },
+    // Rolls up before pruning so no raw row is deleted before it has been
+    // aggregated
+    async runMaintenance(now, retention) {
+      await ensureReady();
+      await rollupHourly(sql);
+      await rollupDaily(sql);
+      await applyRetention(sql, now, retention);
+    },
+  };
+}
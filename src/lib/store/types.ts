@@ -0,0 +1,95 @@
+export type HistoryTier = "raw" | "hourly" | "daily";
+
+export const HOUR_MS = 3600_000;
+export const DAY_MS = 86400_000;
+
+export const TIER_WIDTH_MS: Record<HistoryTier, number> = {
+  raw: 0,
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+};
+
+// Retention in days per tier; 0 keeps rows forever
+export interface RetentionPolicy {
+  raw: number;
+  hourly: number;
+  daily: number;
+}
+
+export interface GasHistoryInsert {
+  // "mainnet" when omitted
+  network?: string;
+  chain: string;
+  avgGwei: number;
+  lowGwei?: number;
+  highGwei?: number;
+  baseFee?: number | null;
+  priorityFees?: { p10: number; p50: number; p90: number } | null;
+  utilization?: number;
+  swapCostUsd: number;
+  tokenPrice: number;
+  blockNumber?: number;
+  timestamp: number;
+}
+
+export interface PriceHistoryInsert {
+  token: string;
+  price: number;
+  source: string;
+  timestamp: number;
+}
+
+export interface BucketStats {
+  min: number;
+  avg: number;
+  max: number;
+  p50: number;
+  p90: number;
+}
+
+export interface AllChainsHistoryPoint {
+  timestamp: number;
+  chains: Record<string, BucketStats>;
+}
+
+export interface ChainHistoryPoint extends BucketStats {
+  timestamp: number;
+  low: number;
+  average: number;
+  high: number;
+  baseFee: number | null;
+}
+
+export interface PriceHistoryPoint {
+  timestamp: number;
+  price: number;
+  min: number;
+  max: number;
+}
+
+export interface GasStore {
+  insertGasData(rows: GasHistoryInsert[]): Promise<void>;
+  queryAllChainsHistory(
+    network: string,
+    since: number,
+    bucketMs: number,
+    tier: HistoryTier
+  ): Promise<AllChainsHistoryPoint[]>;
+  queryChainHistory(
+    network: string,
+    chain: string,
+    since: number,
+    bucketMs: number,
+    tier: HistoryTier
+  ): Promise<ChainHistoryPoint[]>;
+  insertPrices(rows: PriceHistoryInsert[]): Promise<void>;
+  // Bucketed USD price of one token over (since, until]
+  queryPriceHistory(
+    token: string,
+    since: number,
+    until: number,
+    bucketMs: number
+  ): Promise<PriceHistoryPoint[]>;
+  // Refreshes the rollup tiers, then prunes rows past their retention
+  runMaintenance(now: number, retention: RetentionPolicy): Promise<void>;
+}
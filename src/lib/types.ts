@@ -1,3 +1,89 @@
+export interface L1DataFee {
+  // Gwei, as reported by the rollup's L1 fee oracle
+  l1BaseFee: number | null;
+  blobBaseFee: number | null;
+  baseFeeScalar: number | null;
+  blobBaseFeeScalar: number | null;
+  // Gwei of native token charged per byte of signed transaction
+  feePerByte: number;
+}
+
+export interface ZkSyncFee {
+  // Gwei
+  l1GasPrice: number;
+  fairL2GasPrice: number;
+  maxFeePerGas: number;
+  gasPerPubdata: number;
+  // zkSync gas units per L1-equivalent gas unit, calibrated from zks_estimateFee
+  gasUnitScale: number;
+}
+
+// Average tips (Gwei) across recent blocks at the 10th/50th/90th percentile
+export interface PriorityFees {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+// Bitcoin fee rates (sat/vB) from estimatesmartfee and the node's mempool
+export interface BitcoinFees {
+  // Rate expected to confirm within `blocks` blocks
+  targets: { blocks: number; feeRate: number }[];
+  // Floor for entering the node's mempool
+  mempoolMinFee: number;
+  mempoolTxCount: number;
+  // Total virtual size of waiting transactions
+  mempoolVsize: number;
+}
+
+// Gwei when a resource is paid for in ETH, gFRI (1e-9 STRK) when paid in STRK
+export interface StarknetResourcePrice {
+  wei: number;
+  fri: number;
+}
+
+export interface StarknetFees {
+  l1GasPrice: StarknetResourcePrice;
+  l1DataGasPrice: StarknetResourcePrice;
+  // null before Starknet 0.13.3, when execution was billed as L1 gas
+  l2GasPrice: StarknetResourcePrice | null;
+  // "BLOB" or "CALLDATA"
+  l1DaMode: string | null;
+}
+
+// Tron resource prices in sun (1e-6 TRX)
+export interface TronFees {
+  energyPrice: number;
+  // Per byte of bandwidth
+  bandwidthPrice: number;
+  // Bandwidth every account gets free each day
+  freeBandwidth: number;
+  // Daily resources earned per staked TRX; null when the node didn't say
+  energyPerTrx: number | null;
+  bandwidthPerTrx: number | null;
+}
+
+// Priority fee tiers (μlamports/CU) of recent transactions write-locking an account
+export interface SolanaAccountFees {
+  account: string;
+  low: number;
+  average: number;
+  high: number;
+  // Slots with a non-zero priority fee
+  samples: number;
+}
+
+// How far independently queried endpoints agreed on a reading
+export interface GasConsensus {
+  // Endpoints that answered / stayed after dropping lagging heads
+  responded: number;
+  agreeing: number;
+  stale: string[];
+  // (max - min) / median of the average tier across agreeing endpoints
+  spread: number;
+  lowConfidence: boolean;
+}
+
 export interface GasData {
   chain: string;
   blockNumber: number;
@@ -5,6 +91,17 @@ export interface GasData {
   average: number;
   high: number;
   baseFee: number | null;
+  priorityFees?: PriorityFees | null;
+  l1DataFee?: L1DataFee | null;
+  zkSyncFee?: ZkSyncFee | null;
+  bitcoinFees?: BitcoinFees | null;
+  starknetFees?: StarknetFees | null;
+  tronFees?: TronFees | null;
+  // Solana: per-account tiers when fees were scoped to accounts
+  solanaAccountFees?: SolanaAccountFees[] | null;
+  // RPC endpoints that served this snapshot, in order of first use
+  rpcEndpoints?: string[];
+  consensus?: GasConsensus | null;
   timestamp: number;
   networkStats: {
     txCount: number;
@@ -14,10 +111,74 @@ export interface GasData {
   };
 }
 
+export interface TokenPrice {
+  price: number;
+  // Source name, "median" when several were combined, or "fallback"
+  source: string;
+  updatedAt: number | null;
+  ageMs: number | null;
+  // Hard-coded approximation: no source has answered yet
+  fallback: boolean;
+  // Last good quote is older than the staleness threshold
+  stale: boolean;
+}
+
 export interface GasHistoryPoint {
   time: string;
   timestamp: number;
   low: number;
   average: number;
   high: number;
+  // Min/max of the average within a history bucket
+  range?: [number, number];
+  // Native token USD price, for the price overlay
+  price?: number;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+// Cost of one gas tier, in the chain's native token and in USD
+export interface TierCost {
+  token: number;
+  usd: number;
+}
+
+export interface ChainEstimate {
+  chain: string;
+  name: string;
+  nativeTokenSymbol: string;
+  tokenPrice: number;
+  // Gas units from eth_estimateGas
+  gasUsed: number;
+  // Native token paid for posting the transaction to L1; 0 outside rollups
+  l1DataFee: number;
+  low: TierCost;
+  average: TierCost;
+  high: TierCost;
+}
+
+// Estimates fail per chain, e.g. when the call reverts on one of them
+export type ChainEstimateResult = ChainEstimate | { chain: string; name: string; error: string };
+
+// Result of simulating a Solana transaction, priced at each priority-fee tier
+export interface SolanaSimulation {
+  chain: string;
+  nativeTokenSymbol: string;
+  tokenPrice: number;
+  unitsConsumed: number;
+  // CUs the priority fee tiers are charged on
+  computeUnitLimit: number;
+  signatures: number;
+  // Lamports; getFeeForMessage less the transaction's own priority fee, or 5000
+  // per signature once the blockhash expired
+  baseFee: number;
+  // μlamports per CU the tiers are priced at
+  priorityFees: { low: number; average: number; high: number };
+  low: TierCost;
+  average: TierCost;
+  high: TierCost;
+  logs: string[];
 }